@@ -1,13 +1,16 @@
 class ChatbotUI {
     constructor() {
-        this.socket = io();
+        // Reconnects (and page reloads) resume the same chat session
+        this.socket = io({ auth: (cb) => cb({ sessionId: localStorage.getItem('chatSessionId') }) });
         this.messageInput = document.getElementById('messageInput');
         this.sendButton = document.getElementById('sendButton');
         this.clearButton = document.getElementById('clearButton');
         this.toolsButton = document.getElementById('toolsButton');
+        this.saveTestButton = document.getElementById('saveTestButton');
         this.chatMessages = document.getElementById('chatMessages');
         this.toolsModal = document.getElementById('toolsModal');
         this.toolsList = document.getElementById('toolsList');
+        this.streamingMessage = null;
         
         this.setupEventListeners();
         this.setupSocketListeners();
@@ -21,6 +24,7 @@ class ChatbotUI {
         
         this.clearButton.addEventListener('click', () => this.clearHistory());
         this.toolsButton.addEventListener('click', () => this.showTools());
+        this.saveTestButton.addEventListener('click', () => this.saveAsTest());
         
         // Modal close
         document.querySelector('.close').addEventListener('click', () => {
@@ -35,18 +39,50 @@ class ChatbotUI {
     }
 
     setupSocketListeners() {
+        this.socket.on('response-token', (data) => {
+            const streaming = this.getStreamingMessage();
+            streaming.text += data.text;
+            streaming.textElement.innerHTML = this.formatMessage(streaming.text);
+            this.scrollToBottom();
+        });
+
+        this.socket.on('tool-start', (data) => {
+            const streaming = this.getStreamingMessage();
+            const toolDiv = document.createElement('div');
+            toolDiv.className = 'tool-call tool-progress';
+            toolDiv.innerHTML = `<strong>⏳ ${data.name}</strong><br>
+                <small>${JSON.stringify(data.parameters, null, 2)}</small>`;
+            streaming.toolElements[data.id] = toolDiv;
+            streaming.contentDiv.appendChild(toolDiv);
+            this.scrollToBottom();
+        });
+
+        this.socket.on('tool-end', (data) => {
+            const toolDiv = this.streamingMessage && this.streamingMessage.toolElements[data.id];
+            if (!toolDiv) return;
+            toolDiv.className = data.success ? 'tool-result tool-progress' : 'tool-call tool-progress';
+            toolDiv.querySelector('strong').textContent =
+                `${data.success ? '✅' : '❌'} ${data.name} (${data.duration}ms)${data.error ? ` - ${data.errorType ? `[${data.errorType}] ` : ''}${data.error}` : ''}`;
+        });
+
         this.socket.on('response', (data) => {
+            this.removeStreamingMessage();
             this.displayMessage(data.message);
             this.sendButton.disabled = false;
             this.sendButton.textContent = 'Send';
         });
 
         this.socket.on('error', (data) => {
+            this.removeStreamingMessage();
             this.displayError(data.message);
             this.sendButton.disabled = false;
             this.sendButton.textContent = 'Send';
         });
 
+        this.socket.on('session', (data) => {
+            localStorage.setItem('chatSessionId', data.sessionId);
+        });
+
         this.socket.on('history', (history) => {
             this.displayHistory(history);
         });
@@ -74,6 +110,31 @@ class ChatbotUI {
         this.socket.emit('message', { message });
     }
 
+    // Live bubble for the reply in progress; replaced by the final message on 'response'
+    getStreamingMessage() {
+        if (!this.streamingMessage) {
+            const messageDiv = document.createElement('div');
+            messageDiv.className = 'message assistant streaming';
+
+            const contentDiv = document.createElement('div');
+            contentDiv.className = 'message-content';
+            const textElement = document.createElement('p');
+            contentDiv.appendChild(textElement);
+
+            messageDiv.appendChild(contentDiv);
+            this.chatMessages.appendChild(messageDiv);
+            this.streamingMessage = { messageDiv, contentDiv, textElement, text: '', toolElements: {} };
+        }
+        return this.streamingMessage;
+    }
+
+    removeStreamingMessage() {
+        if (this.streamingMessage) {
+            this.streamingMessage.messageDiv.remove();
+            this.streamingMessage = null;
+        }
+    }
+
     displayMessage(message) {
         const messageDiv = document.createElement('div');
         messageDiv.className = `message ${message.role}`;
@@ -128,12 +189,73 @@ class ChatbotUI {
             }).join('');
             contentDiv.innerHTML += toolResultsHtml;
         }
+
+        // Proposed plan: editable steps plus confirm/cancel
+        if (message.plan) {
+            contentDiv.appendChild(this.renderPlan(message.plan));
+        }
         
         messageDiv.appendChild(contentDiv);
         this.chatMessages.appendChild(messageDiv);
         this.scrollToBottom();
     }
 
+    renderPlan(plan) {
+        const planDiv = document.createElement('div');
+        planDiv.className = 'plan';
+        planDiv.innerHTML = plan.steps.map((step, index) =>
+            `<div class="plan-step">
+                <div><strong>${index + 1}.</strong> <input class="plan-description" value="${this.escapeAttribute(step.description)}"></div>
+                <div><input class="plan-tool" value="${this.escapeAttribute(step.tool)}"></div>
+                <textarea class="plan-parameters" rows="2">${this.escapeAttribute(JSON.stringify(step.parameters))}</textarea>
+            </div>`
+        ).join('') +
+            `<div class="plan-actions">
+                <button class="plan-confirm">▶️ Run plan</button>
+                <button class="plan-cancel">✖ Cancel</button>
+            </div>`;
+
+        const buttons = planDiv.querySelectorAll('button');
+        const finish = () => {
+            buttons.forEach(button => button.disabled = true);
+            this.sendButton.disabled = true;
+            this.sendButton.innerHTML = '<div class="loading"></div>';
+        };
+
+        planDiv.querySelector('.plan-confirm').addEventListener('click', () => {
+            let steps;
+            try {
+                steps = Array.from(planDiv.querySelectorAll('.plan-step')).map(row => ({
+                    description: row.querySelector('.plan-description').value,
+                    tool: row.querySelector('.plan-tool').value.trim(),
+                    parameters: JSON.parse(row.querySelector('.plan-parameters').value || '{}')
+                }));
+            } catch (error) {
+                this.displayError(`Invalid step parameters: ${error.message}`);
+                return;
+            }
+
+            const edited = JSON.stringify(steps) !== JSON.stringify(plan.steps);
+            finish();
+            this.socket.emit('plan-confirm', { planId: plan.id, steps: edited ? steps : undefined });
+        });
+
+        planDiv.querySelector('.plan-cancel').addEventListener('click', () => {
+            finish();
+            this.socket.emit('plan-cancel', { planId: plan.id });
+        });
+
+        return planDiv;
+    }
+
+    escapeAttribute(value) {
+        return String(value)
+            .replace(/&/g, '&amp;')
+            .replace(/"/g, '&quot;')
+            .replace(/</g, '&lt;')
+            .replace(/>/g, '&gt;');
+    }
+
     extractFilePath(text) {
         // Extract file path from text like "Screenshot saved to: ../Downloads/current_page-2025-09-16T15-04-26-331Z.png"
         const match = text.match(/Screenshot saved to:\s*(.+)/);
@@ -175,6 +297,67 @@ class ChatbotUI {
         this.socket.emit('clear-history');
     }
 
+    // Draft a test from this session's successful browser actions, let the user confirm assertions, then save
+    async saveAsTest() {
+        const sessionId = localStorage.getItem('chatSessionId');
+        try {
+            const response = await fetch(`/api/chat/sessions/${encodeURIComponent(sessionId)}/test-draft`);
+            const data = await response.json();
+            if (!data.success) throw new Error(data.error);
+
+            const draft = data.draft;
+            if (draft.steps.length === 0 && !draft.websiteUrl) {
+                this.displayError('No successful browser actions in this chat yet.');
+                return;
+            }
+
+            const messageDiv = document.createElement('div');
+            messageDiv.className = 'message system';
+            const contentDiv = document.createElement('div');
+            contentDiv.className = 'message-content';
+            contentDiv.innerHTML = `<div class="plan">
+                    <p><strong>💾 Save chat as test</strong>${draft.websiteUrl ? ` &middot; starts at ${this.escapeAttribute(draft.websiteUrl)}` : ''}</p>
+                    <ol>${draft.steps.map(step => `<li>${this.escapeAttribute(step.description)}</li>`).join('')}</ol>
+                    <div class="plan-step"><input class="save-test-name" placeholder="Test name"></div>
+                    <div class="plan-step">
+                        <small>Expected results, one per line ("Result count equals N" is checked when the test runs)</small>
+                        <textarea class="save-test-assertions" rows="3">${this.escapeAttribute(draft.suggestedAssertions.join('\n'))}</textarea>
+                    </div>
+                    <div class="plan-actions"><button class="save-test-confirm">💾 Save test</button></div>
+                </div>`;
+            messageDiv.appendChild(contentDiv);
+            this.chatMessages.appendChild(messageDiv);
+            this.scrollToBottom();
+
+            const saveButton = contentDiv.querySelector('.save-test-confirm');
+            saveButton.addEventListener('click', async () => {
+                const name = contentDiv.querySelector('.save-test-name').value.trim();
+                if (!name) {
+                    this.displayError('Please enter a test name.');
+                    return;
+                }
+
+                saveButton.disabled = true;
+                const assertions = contentDiv.querySelector('.save-test-assertions').value.split('\n');
+                const saveResponse = await fetch(`/api/chat/sessions/${encodeURIComponent(sessionId)}/test-cases`, {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({ name, assertions })
+                });
+                const saved = await saveResponse.json();
+                if (saved.success) {
+                    messageDiv.remove();
+                    this.addSystemMessage(`✅ Saved test "${this.escapeAttribute(saved.testCase.name)}" (${saved.testCase.id}) with ${saved.testCase.steps.length} steps.`);
+                } else {
+                    saveButton.disabled = false;
+                    this.displayError(saved.error);
+                }
+            });
+        } catch (error) {
+            this.displayError(`Failed to save as test: ${error.message}`);
+        }
+    }
+
     async showTools() {
         try {
             const response = await fetch('/api/tools');
@@ -313,6 +496,7 @@ class LearningPhaseUI {
         this.learnBtn = document.getElementById('learn-system-btn');
         this.learningStatus = document.getElementById('learning-status');
         this.learningResults = document.getElementById('learning-results');
+        this.cancelLearningBtn = document.getElementById('cancel-learning-btn');
         
         // Results display - Add null checks
         this.uiElementsCount = document.getElementById('ui-elements-count');
@@ -464,7 +648,7 @@ class LearningPhaseUI {
         this.learnBtn.disabled = !hasRequiredFiles || this.learningInProgress;
     }
 
-    showLearningResults(results, analysis = null) {
+    showLearningResults(results, analysis = null, learningRunId = null) {
         // Use real results from backend
         console.log('🔍 DEBUG - showLearningResults called with:', { results, analysis });
         console.log('🔍 DEBUG - Test cases count:', results.testCases);
@@ -477,6 +661,7 @@ class LearningPhaseUI {
         // Store learning results globally for Phase 2
         window.learningResults = {
             success: true,
+            learningRunId: learningRunId,
             results: results,
             analysis: analysis
         };
@@ -672,7 +857,7 @@ class LearningPhaseUI {
         this.learningResults.style.display = 'none';
 
         try {
-            // Call the actual learning API with website URL
+            // Learning runs as a server-side job; start it, then follow its progress until it finishes
             const response = await fetch('/api/learn/start', {
                 method: 'POST',
                 headers: {
@@ -684,14 +869,22 @@ class LearningPhaseUI {
                 })
             });
             
-            const result = await response.json();
+            const started = await response.json();
+            if (!started.success) {
+                throw new Error(started.error || 'Learning process failed');
+            }
             
-            if (result.success) {
+            const result = await this.waitForLearningJob(started.jobId);
+            if (result.job.status === 'cancelled') {
+                throw new Error('Learning was cancelled');
+            }
+            
+            if (result.job.status === 'completed') {
                 // Show real results from backend with detailed analysis
                 console.log('🔍 DEBUG - Learning API response:', result);
                 console.log('🔍 DEBUG - Results object:', result.results);
                 console.log('🔍 DEBUG - Test cases in results:', result.results.testCases);
-                this.showLearningResults(result.results, result.analysis);
+                this.showLearningResults(result.results, result.analysis, result.learningRunId);
                 console.log('✅ Learning process completed:', result);
                 
                 // Update Phase 2 button state
@@ -699,13 +892,14 @@ class LearningPhaseUI {
                     window.testGenerationUI.updateGenerateButton();
                 }
             } else {
-                throw new Error(result.error || 'Learning process failed');
+                throw new Error(result.job.error || 'Learning process failed');
             }
             
         } catch (error) {
             console.error('❌ Learning process failed:', error);
             this.showLearningError(error.message);
         } finally {
+            this.currentLearningJobId = null;
             this.learningInProgress = false;
             this.learnBtn.disabled = false;
             this.learnBtn.innerHTML = '<span class="btn-icon">🧠</span><span class="btn-text">Learn The System</span>';
@@ -713,6 +907,68 @@ class LearningPhaseUI {
         }
     }
 
+    // Shows live trace steps from the job's socket room and resolves with the finished job from the API
+    waitForLearningJob(jobId) {
+        this.currentLearningJobId = jobId;
+        if (!this.learningSocket) {
+            this.learningSocket = io();
+            this.learningSocket.on('learning-step', (data) => {
+                if (data.jobId === this.currentLearningJobId) {
+                    this.updateLearningStatus(`[${data.entry.actor}] ${data.entry.action}`);
+                }
+            });
+        }
+        if (this.cancelLearningBtn) {
+            this.cancelLearningBtn.disabled = false;
+            this.cancelLearningBtn.onclick = () => this.cancelLearningJob(jobId);
+        }
+
+        return new Promise((resolve, reject) => {
+            let finished = false;
+            const finish = async () => {
+                if (finished) return;
+                finished = true;
+                this.learningSocket.off('learning-job', onJob);
+                this.learningSocket.emit('learning-unsubscribe', { jobId });
+                clearInterval(poll);
+                try {
+                    const response = await fetch(`/api/learn/jobs/${jobId}`);
+                    resolve(await response.json());
+                } catch (error) {
+                    reject(error);
+                }
+            };
+            const onJob = (job) => {
+                if (job.id === jobId && ['completed', 'failed', 'cancelled'].includes(job.status)) finish();
+            };
+            this.learningSocket.on('learning-job', onJob);
+            this.learningSocket.emit('learning-subscribe', { jobId });
+
+            // Status events can be missed while the socket reconnects, so also poll now and then
+            const poll = setInterval(async () => {
+                try {
+                    const response = await fetch(`/api/learn/jobs/${jobId}`);
+                    const data = await response.json();
+                    if (data.success) onJob(data.job);
+                } catch (error) {
+                    console.warn('⚠️ Could not poll learning job:', error);
+                }
+            }, 10000);
+        });
+    }
+
+    async cancelLearningJob(jobId) {
+        if (this.cancelLearningBtn) this.cancelLearningBtn.disabled = true;
+        this.updateLearningStatus('Cancelling...');
+        try {
+            const response = await fetch(`/api/learn/jobs/${jobId}/cancel`, { method: 'POST' });
+            const data = await response.json();
+            if (!data.success) console.warn('⚠️ Cancel failed:', data.error);
+        } catch (error) {
+            console.error('❌ Failed to cancel learning job:', error);
+        }
+    }
+
     async simulateLearningProcess() {
         // Simulate different phases of learning
         const phases = [
@@ -1022,7 +1278,10 @@ class TestGenerationUI {
                 headers: {
                     'Content-Type': 'application/json'
                 },
-                body: JSON.stringify({ learningResults, testOptions })
+                // The server loads the stored run; the blob is only sent when there is no run id
+                body: JSON.stringify(learningResults.learningRunId
+                    ? { learningRunId: learningResults.learningRunId, testOptions }
+                    : { learningResults, testOptions })
             });
 
             const result = await response.json();
@@ -1119,7 +1378,7 @@ class TestGenerationUI {
                     <div class="test-steps">
                         <h5>Steps:</h5>
                         <ol>
-                            ${(testCase.steps || []).map(step => `<li>${step}</li>`).join('')}
+                            ${(testCase.steps || []).map(step => `<li>${typeof step === 'string' ? step : step.description}</li>`).join('')}
                         </ol>
                     </div>
                     <div class="test-data">
@@ -1351,8 +1610,8 @@ class TestGenerationUI {
                             <p><strong>Expected Count:</strong> ${result.validation.expectedCount}</p>
                             <p><strong>Actual Count:</strong> ${result.validation.actualCount}</p>
                             <p><strong>Validation Status:</strong> 
-                                <span class="${result.validation.passed ? 'validation-passed' : 'validation-failed'}">
-                                    ${result.validation.passed ? '✅ Passed' : '❌ Failed'}
+                                <span class="${result.validation.skipped ? 'validation-skipped' : result.validation.passed ? 'validation-passed' : 'validation-failed'}">
+                                    ${result.validation.skipped ? '⏭️ Skipped' : result.validation.passed ? '✅ Passed' : '❌ Failed'}
                                 </span>
                             </p>
                         </div>
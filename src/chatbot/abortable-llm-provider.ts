@@ -0,0 +1,54 @@
+import { BedrockResponse, MCPToolDefinition } from './types';
+import { LLMProvider, LLMMessage, ModelInvocationParams } from './llm-provider';
+import { withAbort, abortError } from '../utils/with-timeout';
+
+// Wraps another LLMProvider so a long-running job can be cancelled: once the current signal aborts,
+// pending calls reject immediately and new calls fail before reaching the model.
+export class AbortableLLMProvider implements LLMProvider {
+  readonly name: string;
+  readonly modelId: string;
+
+  private signal: AbortSignal | null = null;
+
+  constructor(private inner: LLMProvider) {
+    this.name = inner.name;
+    this.modelId = inner.modelId;
+  }
+
+  setSignal(signal: AbortSignal | null): void {
+    this.signal = signal;
+  }
+
+  // Clears the signal only if it is still the current one, so a finishing run cannot unset its successor's
+  clearSignal(signal: AbortSignal): void {
+    if (this.signal === signal) {
+      this.signal = null;
+    }
+  }
+
+  generateResponse(messages: LLMMessage[], tools: MCPToolDefinition[]): Promise<BedrockResponse> {
+    return this.guard(() => this.inner.generateResponse(messages, tools));
+  }
+
+  generateResponseStream(messages: LLMMessage[], tools: MCPToolDefinition[], onText: (delta: string) => void): Promise<BedrockResponse> {
+    return this.guard(() => this.inner.generateResponseStream
+      ? this.inner.generateResponseStream(messages, tools, onText)
+      : this.inner.generateResponse(messages, tools));
+  }
+
+  generateMultimodalResponse(messages: Array<{ role: string; content: any }>, tools?: MCPToolDefinition[]): Promise<BedrockResponse> {
+    return this.guard(() => this.inner.generateMultimodalResponse(messages, tools));
+  }
+
+  invokeModel(params: ModelInvocationParams): Promise<any> {
+    return this.guard(() => this.inner.invokeModel(params));
+  }
+
+  private async guard<T>(call: () => Promise<T>): Promise<T> {
+    const signal = this.signal;
+    if (signal?.aborted) {
+      throw abortError(signal);
+    }
+    return withAbort(call(), signal);
+  }
+}
@@ -1,15 +1,41 @@
-import { BedrockRuntimeClient, InvokeModelCommand, ConverseCommand } from '@aws-sdk/client-bedrock-runtime';
+import { BedrockRuntimeClient, InvokeModelCommand, InvokeModelWithResponseStreamCommand, ConverseCommand } from '@aws-sdk/client-bedrock-runtime';
 import { BedrockResponse, ToolCall, MCPToolDefinition } from './types';
+import { LLMProvider, LLMMessage, ModelInvocationParams } from './llm-provider';
+import { fitToTokenBudget, toolResultText } from './conversation-context';
+import { PROPOSE_PLAN_TOOL } from './plan-tool';
+import { withTimeout } from '../utils/with-timeout';
 
-export class BedrockClient {
+const BEDROCK_TIMEOUT_MS = parseInt(process.env.BEDROCK_TIMEOUT_MS || '60000');
+
+// Leading base64 characters of each supported image format's magic bytes
+const IMAGE_SIGNATURES: Array<[string, string]> = [
+  ['iVBORw0KGgo', 'image/png'],
+  ['/9j/', 'image/jpeg'],
+  ['R0lGOD', 'image/gif'],
+  ['UklGR', 'image/webp']
+];
+
+// The MIME type given with the image, else one taken from a data: URL prefix or the base64 header; PNG if unknown
+export function resolveImage(content: { data: string; mediaType?: string }): { mediaType: string; data: string } {
+  const dataUrl = content.data.match(/^data:(image\/[a-z+.-]+);base64,/i);
+  const data = dataUrl ? content.data.substring(dataUrl[0].length) : content.data;
+  const detected = IMAGE_SIGNATURES.find(([signature]) => data.startsWith(signature))?.[1];
+  const mediaType = (content.mediaType || dataUrl?.[1] || detected || 'image/png').toLowerCase();
+  return { mediaType: mediaType === 'image/jpg' ? 'image/jpeg' : mediaType, data };
+}
+
+export class BedrockClient implements LLMProvider {
+  readonly name = 'bedrock';
   private client: BedrockRuntimeClient;
-  private modelId: string;
+  readonly modelId: string;
+  private historyTokenBudget: number;
 
   constructor(config: {
     region: string;
     modelId: string;
     accessKeyId: string;
     secretAccessKey: string;
+    historyTokenBudget?: number;
   }) {
     console.log('DEBUG: BedrockClient constructor called with config:', {
       region: config.region,
@@ -27,15 +53,11 @@ export class BedrockClient {
       maxAttempts: 1
     });
     this.modelId = config.modelId;
+    this.historyTokenBudget = config.historyTokenBudget || 30000;
   }
 
   // NEW: Invoke model for embeddings
-  async invokeModel(params: {
-    modelId: string;
-    contentType: string;
-    accept: string;
-    body: string;
-  }): Promise<any> {
+  async invokeModel(params: ModelInvocationParams): Promise<any> {
     console.log(`📡 Invoking Bedrock model: ${params.modelId}`);
     
     try {
@@ -61,70 +83,16 @@ export class BedrockClient {
   }
 
   async generateResponse(
-    messages: Array<{ role: string; content: string | { type: 'image'; text: string; data: string } }>,
+    messages: LLMMessage[],
     tools: MCPToolDefinition[]
   ): Promise<BedrockResponse> {
     console.log('DEBUG: BedrockClient.generateResponse called');
     console.log('DEBUG: Messages:', messages.length);
     console.log('DEBUG: Tools:', tools.length);
 
-    const systemPrompt = this.buildSystemPrompt(tools);
-    console.log('DEBUG: System prompt built');
-
-    // Filter tools to only include Playwright automation tools
-    const playwrightTools = tools.filter(tool => 
-      tool.name.startsWith('playwright_') && 
-      !tool.name.includes('codegen') &&
-      !tool.name.includes('session')
-    );
-
-    console.log('DEBUG: Filtered tools:', playwrightTools.length);
-
-    // Convert tools to the correct format for Claude
-    const claudeTools = playwrightTools.map(tool => ({
-      name: tool.name,
-      description: tool.description,
-      input_schema: tool.inputSchema
-    }));
-
-    console.log('DEBUG: Claude tools:', JSON.stringify(claudeTools, null, 2));
-
-    // Process the last message to handle image content
-    const lastMessage = messages[messages.length - 1];
-    let messageContent;
-    
-    if (lastMessage && typeof lastMessage.content === 'object' && lastMessage.content.type === 'image') {
-      // Handle image content
-      messageContent = {
-        role: 'user',
-        content: [
-          { text: `${systemPrompt}\n\n${lastMessage.content.text}` },
-          {
-            image: {
-              format: 'base64' as const,
-              source: {
-                bytes: Buffer.from(lastMessage.content.data, 'base64')
-              }
-            }
-          }
-        ]
-      };
-    } else {
-      // Handle text content
-      const textContent = typeof lastMessage?.content === 'string' ? lastMessage.content : 'Hello';
-      messageContent = { role: 'user', content: `${systemPrompt}\n\nUser: ${textContent}` };
-    }
-
     const command = new InvokeModelCommand({
       modelId: this.modelId,
-      body: JSON.stringify({
-        anthropic_version: "bedrock-2023-05-31",
-        messages: [messageContent],
-        tools: claudeTools.length > 0 ? claudeTools : undefined,
-        tool_choice: claudeTools.length > 0 ? { type: "any" } : undefined,
-        max_tokens: 2000,
-        temperature: 0.9,
-      }),
+      body: this.buildConversationBody(messages, tools),
       contentType: 'application/json',
     });
 
@@ -132,12 +100,7 @@ export class BedrockClient {
       console.log('DEBUG: Sending command to Bedrock...');
       const startTime = Date.now();
       
-      const response = await Promise.race([
-        this.client.send(command),
-        new Promise((_, reject) => 
-          setTimeout(() => reject(new Error('Bedrock API timeout after 60 seconds')), 60000)
-        )
-      ]);
+      const response = await withTimeout(this.client.send(command), BEDROCK_TIMEOUT_MS, `Bedrock API timeout after ${BEDROCK_TIMEOUT_MS}ms`);
       
       const duration = Date.now() - startTime;
       console.log(`DEBUG: Got response from Bedrock in ${duration}ms`);
@@ -154,26 +117,168 @@ export class BedrockClient {
     }
   }
 
-  private buildSystemPrompt(tools: MCPToolDefinition[]): string {
-    return `You are a helpful assistant that can automate web browsers using Playwright tools.
+  // Same request as generateResponse, but text deltas are handed to onText as they arrive
+  async generateResponseStream(
+    messages: LLMMessage[],
+    tools: MCPToolDefinition[],
+    onText: (delta: string) => void
+  ): Promise<BedrockResponse> {
+    console.log('DEBUG: BedrockClient.generateResponseStream called');
 
-Available tools:
-${tools.map(tool => `- ${tool.name}: ${tool.description}`).join('\n')}
+    const command = new InvokeModelWithResponseStreamCommand({
+      modelId: this.modelId,
+      body: this.buildConversationBody(messages, tools),
+      contentType: 'application/json',
+    });
+
+    try {
+      const response = await withTimeout(this.client.send(command), BEDROCK_TIMEOUT_MS, `Bedrock API timeout after ${BEDROCK_TIMEOUT_MS}ms`);
+
+      let content = '';
+      let finishReason = 'stop';
+      const toolCalls: ToolCall[] = [];
+      const toolInputs: Map<number, { call: ToolCall; json: string }> = new Map();
+
+      for await (const streamEvent of response.body || []) {
+        if (!streamEvent.chunk?.bytes) continue;
+        const event = JSON.parse(new TextDecoder().decode(streamEvent.chunk.bytes));
+
+        if (event.type === 'content_block_start' && event.content_block?.type === 'tool_use') {
+          const call = { id: event.content_block.id, name: event.content_block.name, parameters: {} };
+          toolInputs.set(event.index, { call, json: '' });
+          toolCalls.push(call);
+        } else if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
+          content += event.delta.text;
+          onText(event.delta.text);
+        } else if (event.type === 'content_block_delta' && event.delta?.type === 'input_json_delta') {
+          const toolInput = toolInputs.get(event.index);
+          if (toolInput) toolInput.json += event.delta.partial_json;
+        } else if (event.type === 'content_block_stop' && toolInputs.has(event.index)) {
+          const toolInput = toolInputs.get(event.index)!;
+          toolInput.call.parameters = toolInput.json ? JSON.parse(toolInput.json) : {};
+        } else if (event.type === 'message_delta' && event.delta?.stop_reason) {
+          finishReason = event.delta.stop_reason;
+        }
+      }
+
+      console.log('DEBUG: Streamed content:', content);
+      console.log('DEBUG: Streamed toolCalls:', toolCalls);
+
+      return { content, toolCalls, finishReason: finishReason as BedrockResponse['finishReason'] };
+    } catch (error) {
+      console.error('Bedrock streaming API error:', error);
+      throw new Error(`Failed to generate response: ${error.message}`);
+    }
+  }
 
-��� CRITICAL RULE - NEVER BREAK THIS: ���
-1. MANDATORY: When a user asks for multiple actions in ONE request - YOU MUST ALWAYS generate ALL tool calls in a SINGLE response - NEVER ask for clarification (like "go to google.com and take a screenshot"), you MUST generate MULTIPLE tool calls in your response.
-2. Do NOT stop after just one action - execute ALL requested actions in sequence.
-3. Each action should be a separate tool call.
+  // Anthropic Messages request body shared by the blocking and streaming calls
+  private buildConversationBody(messages: LLMMessage[], tools: MCPToolDefinition[]): string {
+    const systemPrompt = this.buildSystemPrompt(tools);
+    console.log('DEBUG: System prompt built');
 
-EXAMPLES OF WHAT YOU MUST DO:
-- User: "go to google.com and take a screenshot" 
-  → Generate TWO tool calls: playwright_navigate AND playwright_screenshot
+    // Filter tools to only include Playwright automation tools (and the chat's plan proposal)
+    const playwrightTools = tools.filter(tool => 
+      tool.name === PROPOSE_PLAN_TOOL.name || (
+        tool.name.startsWith('playwright_') && 
+        !tool.name.includes('codegen') &&
+        !tool.name.includes('session'))
+    );
 
-- User: "navigate to example.com and click the login button"
-  → Generate TWO tool calls: playwright_navigate AND playwright_click
+    console.log('DEBUG: Filtered tools:', playwrightTools.length);
 
-- User: "go to a website and fill out a form"
-  → Generate MULTIPLE tool calls: playwright_navigate, playwright_click, playwright_fill, etc.
+    // Convert tools to the correct format for Claude
+    const claudeTools = playwrightTools.map(tool => ({
+      name: tool.name,
+      description: tool.description,
+      input_schema: tool.inputSchema
+    }));
+
+    console.log('DEBUG: Claude tools:', JSON.stringify(claudeTools, null, 2));
+
+    // Send the whole conversation, trimmed to the token budget, with the system prompt in its own field
+    const { messages: history, summary } = fitToTokenBudget(messages.filter(msg => msg.role !== 'system'), this.historyTokenBudget);
+    const systemNotes = messages
+      .filter(msg => msg.role === 'system')
+      .map(msg => typeof msg.content === 'string' ? msg.content : msg.content.text);
+    const system = [systemPrompt, ...systemNotes, ...(summary ? [summary] : [])].join('\n\n');
+    const anthropicMessages = this.toAnthropicMessages(history, claudeTools.length > 0);
+    console.log(`DEBUG: Sending ${anthropicMessages.length} conversation turns`);
+
+    return JSON.stringify({
+      anthropic_version: "bedrock-2023-05-31",
+      system: system,
+      messages: anthropicMessages,
+      tools: claudeTools.length > 0 ? claudeTools : undefined,
+      // "auto" so the model can finish with a plain answer once it has seen the tool results
+      tool_choice: claudeTools.length > 0 ? { type: "auto" } : undefined,
+      max_tokens: 2000,
+      temperature: 0.9,
+    });
+  }
+
+  // Maps history onto Anthropic turns: tool calls become tool_use blocks on the assistant turn and their
+  // results a tool_result user turn. Without tool definitions the API rejects those blocks, so they are
+  // rendered as text instead. Consecutive same-role turns are merged because roles must alternate.
+  private toAnthropicMessages(messages: LLMMessage[], withToolBlocks: boolean): Array<{ role: string; content: any[] }> {
+    const turns: Array<{ role: string; content: any[] }> = [];
+    const push = (role: string, blocks: any[]) => {
+      if (blocks.length === 0) return;
+      const previous = turns[turns.length - 1];
+      if (previous && previous.role === role) {
+        previous.content.push(...blocks);
+      } else {
+        turns.push({ role, content: blocks });
+      }
+    };
+
+    for (const message of messages) {
+      const role = message.role === 'assistant' ? 'assistant' : 'user';
+      const blocks: any[] = [];
+
+      if (typeof message.content === 'object' && message.content.type === 'image') {
+        const image = resolveImage(message.content);
+        blocks.push({ type: 'image', source: { type: 'base64', media_type: image.mediaType, data: image.data } });
+        blocks.push({ type: 'text', text: message.content.text || 'Analyze this image' });
+      } else if (typeof message.content === 'string' && message.content.trim()) {
+        blocks.push({ type: 'text', text: message.content });
+      }
+
+      const toolCalls = role === 'assistant' ? message.toolCalls || [] : [];
+      if (toolCalls.length === 0) {
+        push(role, blocks);
+        continue;
+      }
+
+      const results = toolCalls.map(call => {
+        const result = message.toolResults?.find(r => r.callId === call.id);
+        return { call, text: result ? toolResultText(result) : 'No result recorded', isError: !result || !result.success };
+      });
+
+      if (withToolBlocks) {
+        push('assistant', [...blocks, ...toolCalls.map(call => ({ type: 'tool_use', id: call.id, name: call.name, input: call.parameters || {} }))]);
+        push('user', results.map(({ call, text, isError }) => ({ type: 'tool_result', tool_use_id: call.id, content: text, is_error: isError })));
+      } else {
+        push('assistant', [...blocks, ...toolCalls.map(call => ({ type: 'text', text: `[Called ${call.name} with ${JSON.stringify(call.parameters)}]` }))]);
+        push('user', results.map(({ call, text, isError }) => ({ type: 'text', text: `[${call.name} ${isError ? 'failed' : 'returned'}]\n${text}` })));
+      }
+    }
+
+    // The API requires the conversation to open with a user turn
+    if (turns.length > 0 && turns[0].role !== 'user') {
+      turns.unshift({ role: 'user', content: [{ type: 'text', text: '(continuing earlier conversation)' }] });
+    }
+    if (turns.length === 0) {
+      turns.push({ role: 'user', content: [{ type: 'text', text: 'Hello' }] });
+    }
+
+    return turns;
+  }
+
+  private buildSystemPrompt(tools: MCPToolDefinition[]): string {
+    return `You are a helpful assistant that can automate web browsers using Playwright tools.
+
+Available tools:
+${tools.map(tool => `- ${tool.name}: ${tool.description}`).join('\n')}
 
 Tool Guidelines:
 1. Use playwright_navigate to go to websites
@@ -184,11 +289,9 @@ Tool Guidelines:
 6. Provide clear explanations of your actions
 7. If an action fails, try alternative approaches
 
-Remember: Generate ALL tool calls needed for the user's request in one response. Don't ask for clarification - just do what they asked for.
-
-Respond naturally and helpfully to user requests.
+After your tool calls run you will receive their results. Use them to decide the next step, keep calling tools until the request is complete, then reply with a short final answer and no tool calls.
 
-CRITICAL: If user asks for multiple actions, generate ALL tool calls immediately. Do not wait, do not ask, just execute all requested actions in one response.`;
+Respond naturally and helpfully to user requests.`;
   }
 
   private parseResponse(responseBody: any): BedrockResponse {
@@ -233,15 +336,16 @@ CRITICAL: If user asks for multiple actions, generate ALL tool calls immediately
           content: [{ text: `${systemPrompt}\n\n${msg.content}` }]
         };
       } else if (msg.content && msg.content.type === 'image') {
+        const image = resolveImage(msg.content);
         return {
           role: msg.role as 'user' | 'assistant',
           content: [
             { text: `${systemPrompt}\n\n${msg.content.text || 'Analyze this image'}` },
             { 
               image: {
-                format: 'base64' as const,
+                format: image.mediaType.replace('image/', ''),
                 source: {
-                  bytes: Buffer.from(msg.content.data, 'base64')
+                  bytes: Buffer.from(image.data, 'base64')
                 }
               }
             }
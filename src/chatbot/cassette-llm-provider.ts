@@ -0,0 +1,121 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { BedrockResponse, MCPToolDefinition } from './types';
+import { LLMProvider, LLMMessage, ModelInvocationParams } from './llm-provider';
+
+export type CassetteMode = 'record' | 'replay';
+
+interface CassetteEntry {
+  key: string;
+  occurrence: number;
+  method: string;
+  modelId: string;
+  promptExcerpt: string;
+  recordedAt: string;
+  response: any;
+}
+
+// Wraps another LLMProvider and records request→response pairs to disk, or replays them.
+// Entries are keyed by a hash of method + model id + full request; repeated identical
+// requests are numbered so a replay returns responses in the order they were recorded.
+export class CassetteLLMProvider implements LLMProvider {
+  readonly name: string;
+  readonly modelId: string;
+
+  private occurrences: Map<string, number> = new Map();
+
+  constructor(
+    private inner: LLMProvider,
+    private mode: CassetteMode,
+    private cassetteDir: string
+  ) {
+    this.name = `${inner.name}+cassette-${mode}`;
+    this.modelId = inner.modelId;
+
+    if (mode === 'replay' && !fs.existsSync(cassetteDir)) {
+      throw new Error(`Cassette not found: ${cassetteDir}. Record it first with LLM_CASSETTE_MODE=record.`);
+    }
+    fs.mkdirSync(cassetteDir, { recursive: true });
+
+    console.log(`📼 LLM cassette ${mode === 'record' ? 'recording to' : 'replaying from'} ${cassetteDir}`);
+  }
+
+  async generateResponse(messages: LLMMessage[], tools: MCPToolDefinition[]): Promise<BedrockResponse> {
+    return this.through('generateResponse', this.modelId, { messages, tools: tools.map(tool => tool.name) },
+      () => this.inner.generateResponse(messages, tools));
+  }
+
+  // Shares cassette entries with generateResponse; a replay emits the recorded text as one delta
+  async generateResponseStream(messages: LLMMessage[], tools: MCPToolDefinition[], onText: (delta: string) => void): Promise<BedrockResponse> {
+    let streamed = false;
+    const response = await this.through('generateResponse', this.modelId, { messages, tools: tools.map(tool => tool.name) },
+      () => {
+        streamed = true;
+        return this.inner.generateResponseStream
+          ? this.inner.generateResponseStream(messages, tools, onText)
+          : this.inner.generateResponse(messages, tools).then(result => {
+              if (result.content) onText(result.content);
+              return result;
+            });
+      });
+
+    if (!streamed && response.content) {
+      onText(response.content);
+    }
+    return response;
+  }
+
+  async generateMultimodalResponse(messages: Array<{ role: string; content: any }>, tools: MCPToolDefinition[] = []): Promise<BedrockResponse> {
+    return this.through('generateMultimodalResponse', this.modelId, { messages, tools: tools.map(tool => tool.name) },
+      () => this.inner.generateMultimodalResponse(messages, tools));
+  }
+
+  async invokeModel(params: ModelInvocationParams): Promise<any> {
+    return this.through('invokeModel', params.modelId, { body: params.body },
+      () => this.inner.invokeModel(params));
+  }
+
+  private async through<T>(method: string, modelId: string, request: any, call: () => Promise<T>): Promise<T> {
+    const serialized = JSON.stringify(request);
+    const key = createHash('sha256').update(`${method}\n${modelId}\n${serialized}`).digest('hex').substring(0, 32);
+    const occurrence = (this.occurrences.get(key) || 0) + 1;
+    this.occurrences.set(key, occurrence);
+
+    if (this.mode === 'replay') {
+      const entry = this.readEntry(key, occurrence);
+      if (!entry) {
+        throw new Error(`Cassette miss for ${method} (${modelId}), key ${key}: request was not recorded. NO FALLBACK AVAILABLE.`);
+      }
+      return entry.response;
+    }
+
+    const response = await call();
+    const entry: CassetteEntry = {
+      key,
+      occurrence,
+      method,
+      modelId,
+      promptExcerpt: serialized.substring(0, 2000),
+      recordedAt: new Date().toISOString(),
+      response
+    };
+    await fs.promises.writeFile(this.entryPath(key, occurrence), JSON.stringify(entry, null, 2));
+    return response;
+  }
+
+  // Falls back to the last recorded occurrence when a request repeats more often than during recording
+  private readEntry(key: string, occurrence: number): CassetteEntry | null {
+    for (let n = occurrence; n >= 1; n--) {
+      const entryPath = this.entryPath(key, n);
+      if (fs.existsSync(entryPath)) {
+        return JSON.parse(fs.readFileSync(entryPath, 'utf-8'));
+      }
+    }
+    return null;
+  }
+
+  private entryPath(key: string, occurrence: number): string {
+    return path.join(this.cassetteDir, `${key}-${occurrence}.json`);
+  }
+}
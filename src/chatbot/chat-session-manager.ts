@@ -0,0 +1,90 @@
+import { LLMProvider } from './llm-provider';
+import { MCPSessionPool } from './mcp-session-pool';
+import { MessageHandler } from './message-handler';
+import { SlashCommandHandler } from './slash-commands';
+
+export interface ChatSession {
+  id: string;
+  handler: MessageHandler;
+  createdAt: Date;
+  lastActive: Date;
+  connections: number;
+}
+
+// One MessageHandler (and so one history) per chat session. A session outlives its socket so a
+// reconnecting client can resume it; sessions with no connections are dropped after the idle timeout.
+export class ChatSessionManager {
+  private sessions: Map<string, ChatSession> = new Map();
+  private expiryTimer: NodeJS.Timeout;
+
+  constructor(
+    private llmProvider: LLMProvider,
+    private sessionPool: MCPSessionPool,
+    private idleTimeoutMs: number = 30 * 60 * 1000,
+    private slashCommands?: SlashCommandHandler
+  ) {
+    this.expiryTimer = setInterval(() => this.expireIdleSessions(), Math.min(60000, idleTimeoutMs));
+    this.expiryTimer.unref();
+  }
+
+  // Resumes the session when the id is known, otherwise starts a new one
+  connect(sessionId?: string): { session: ChatSession; resumed: boolean } {
+    const existing = sessionId ? this.sessions.get(sessionId) : undefined;
+    if (existing) {
+      existing.connections++;
+      existing.lastActive = new Date();
+      console.log(`💬 Chat session resumed: ${existing.id} (${existing.handler.getConversationHistory().length} messages)`);
+      return { session: existing, resumed: true };
+    }
+
+    const id = sessionId || `chat-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+    const session: ChatSession = {
+      id,
+      handler: new MessageHandler(this.llmProvider, this.sessionPool, { slashCommands: this.slashCommands, owner: `chat:${id}` }),
+      createdAt: new Date(),
+      lastActive: new Date(),
+      connections: 1
+    };
+    this.sessions.set(session.id, session);
+    console.log(`💬 Chat session started: ${session.id}`);
+    return { session, resumed: false };
+  }
+
+  // The history stays resumable, but the browser goes back to the pool once no client is connected
+  disconnect(sessionId: string): void {
+    const session = this.sessions.get(sessionId);
+    if (session) {
+      session.connections = Math.max(0, session.connections - 1);
+      session.lastActive = new Date();
+      if (session.connections === 0) {
+        session.handler.releaseBrowser();
+      }
+    }
+  }
+
+  touch(sessionId: string): void {
+    const session = this.sessions.get(sessionId);
+    if (session) {
+      session.lastActive = new Date();
+    }
+  }
+
+  getSession(sessionId: string): ChatSession | undefined {
+    return this.sessions.get(sessionId);
+  }
+
+  getSessionCount(): number {
+    return this.sessions.size;
+  }
+
+  private expireIdleSessions(): void {
+    const cutoff = Date.now() - this.idleTimeoutMs;
+    for (const [id, session] of this.sessions) {
+      if (session.connections === 0 && session.lastActive.getTime() < cutoff) {
+        this.sessions.delete(id);
+        session.handler.releaseBrowser();
+        console.log(`💬 Chat session expired after inactivity: ${id}`);
+      }
+    }
+  }
+}
@@ -0,0 +1,94 @@
+import { LLMMessage } from './llm-provider';
+import { ToolResult } from './types';
+import { describeToolError } from './tool-errors';
+
+// Rough Claude tokenizer estimate; good enough for keeping requests under a budget
+const CHARS_PER_TOKEN = 4;
+const IMAGE_TOKENS = 1600;
+const TOOL_RESULT_MAX_CHARS = 4000;
+
+export function estimateTokens(message: LLMMessage): number {
+  const content = typeof message.content === 'string'
+    ? message.content.length
+    : message.content.text.length + IMAGE_TOKENS * CHARS_PER_TOKEN;
+  const toolCalls = (message.toolCalls || []).reduce((sum, call) => sum + call.name.length + JSON.stringify(call.parameters).length, 0);
+  const toolResults = (message.toolResults || []).reduce((sum, result) => sum + toolResultText(result).length, 0);
+
+  return Math.ceil((content + toolCalls + toolResults) / CHARS_PER_TOKEN);
+}
+
+// MCP results are content arrays; only their text is useful to the model
+export function toolResultText(result: ToolResult): string {
+  if (!result.success) {
+    return `Error: ${describeToolError(result)}`;
+  }
+
+  const content = Array.isArray(result.result?.content) ? result.result.content : result.result;
+  const text = Array.isArray(content)
+    ? content.map((block: any) => block?.type === 'text' ? block.text : `[${block?.type || 'unknown'} content]`).join('\n')
+    : typeof content === 'string' ? content : JSON.stringify(content);
+
+  return text.length > TOOL_RESULT_MAX_CHARS
+    ? `${text.substring(0, TOOL_RESULT_MAX_CHARS)}\n... [truncated ${text.length - TOOL_RESULT_MAX_CHARS} chars]`
+    : text;
+}
+
+// Keeps the newest messages that fit in the budget (the latest message always stays) and
+// replaces the dropped ones with a short extractive summary so the model keeps its bearings.
+// System messages are never dropped. A tool call and its result live on one message, so they go together.
+export function fitToTokenBudget(messages: LLMMessage[], tokenBudget: number): { messages: LLMMessage[]; summary?: string } {
+  const system = messages.filter(message => message.role === 'system');
+  const history = messages.filter(message => message.role !== 'system');
+  let used = system.reduce((sum, message) => sum + estimateTokens(message), 0);
+  let firstKept = history.length;
+
+  while (firstKept > 0) {
+    const cost = estimateTokens(history[firstKept - 1]);
+    if (firstKept < history.length && used + cost > tokenBudget) break;
+    used += cost;
+    firstKept--;
+  }
+
+  if (firstKept === 0) {
+    return { messages };
+  }
+
+  console.log(`✂️ Conversation history over ${tokenBudget} token budget: summarizing ${firstKept} older messages`);
+  return {
+    messages: [...system, ...history.slice(firstKept)],
+    summary: summarizeMessages(history.slice(0, firstKept))
+  };
+}
+
+function summarizeMessages(messages: LLMMessage[]): string {
+  const lines: string[] = [];
+  let lastUrl: string | undefined;
+
+  for (const message of messages) {
+    const text = typeof message.content === 'string' ? message.content : message.content.text;
+    if (message.role === 'user') {
+      lines.push(`- User: ${oneLine(text, 200)}`);
+    }
+
+    for (const call of message.toolCalls || []) {
+      const result = message.toolResults?.find(r => r.callId === call.id);
+      lines.push(`- Ran ${call.name}(${oneLine(JSON.stringify(call.parameters), 120)})${result ? (result.success ? ' ✓' : ' ✗') : ''}`);
+      if (call.name === 'playwright_navigate' && call.parameters.url) {
+        lastUrl = call.parameters.url;
+      }
+    }
+  }
+
+  const recent = lines.slice(-30);
+  return [
+    `Summary of ${messages.length} earlier messages (older details omitted):`,
+    ...(recent.length < lines.length ? [`- ... ${lines.length - recent.length} earlier entries`] : []),
+    ...recent,
+    ...(lastUrl ? [`The browser was last navigated to ${lastUrl}.`] : [])
+  ].join('\n');
+}
+
+function oneLine(text: string, maxLength: number): string {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  return flat.length > maxLength ? `${flat.substring(0, maxLength)}...` : flat;
+}
@@ -0,0 +1,79 @@
+import { BedrockResponse, MCPToolDefinition, ToolCall, ToolResult } from './types';
+import { BedrockClient } from './bedrock-client';
+import { MockLLMProvider } from './mock-llm-provider';
+import { CassetteLLMProvider } from './cassette-llm-provider';
+import * as path from 'path';
+
+// Assistant turns may carry the tool calls they made and the results those calls returned
+export type LLMMessage = {
+  role: string;
+  content: string | { type: 'image'; text: string; data: string; mediaType?: string };
+  toolCalls?: ToolCall[];
+  toolResults?: ToolResult[];
+};
+
+export interface ModelInvocationParams {
+  modelId: string;
+  contentType: string;
+  accept: string;
+  body: string;
+}
+
+// Everything the chatbot and orchestrators need from a model backend
+export interface LLMProvider {
+  readonly name: string;
+  readonly modelId: string;
+  generateResponse(messages: LLMMessage[], tools: MCPToolDefinition[]): Promise<BedrockResponse>;
+  // Optional streaming variant of generateResponse; callers fall back to generateResponse without it
+  generateResponseStream?(messages: LLMMessage[], tools: MCPToolDefinition[], onText: (delta: string) => void): Promise<BedrockResponse>;
+  generateMultimodalResponse(messages: Array<{ role: string; content: any }>, tools?: MCPToolDefinition[]): Promise<BedrockResponse>;
+  // Raw model invocation; used for embeddings (Titan request/response bodies)
+  invokeModel(params: ModelInvocationParams): Promise<any>;
+}
+
+// LLM_PROVIDER=bedrock (default) | mock, optionally wrapped by LLM_CASSETTE_MODE=record | replay
+export function createLLMProvider(): LLMProvider {
+  const provider = createBaseProvider();
+  const cassetteMode = process.env.LLM_CASSETTE_MODE?.toLowerCase();
+
+  if (!cassetteMode || cassetteMode === 'off') {
+    return provider;
+  }
+
+  if (cassetteMode !== 'record' && cassetteMode !== 'replay') {
+    throw new Error(`Unknown LLM_CASSETTE_MODE "${cassetteMode}". Supported modes: record, replay, off`);
+  }
+
+  const cassetteDir = path.join(
+    process.env.LLM_CASSETTE_DIR || path.join(process.cwd(), 'data', 'cassettes'),
+    process.env.LLM_CASSETTE_NAME || 'default'
+  );
+  return new CassetteLLMProvider(provider, cassetteMode, cassetteDir);
+}
+
+function createBaseProvider(): LLMProvider {
+  const provider = (process.env.LLM_PROVIDER || 'bedrock').toLowerCase();
+
+  if (provider === 'mock') {
+    console.log('🧪 Using mock LLM provider (offline mode)');
+    return new MockLLMProvider(process.env.LLM_MOCK_FIXTURES);
+  }
+
+  if (provider !== 'bedrock') {
+    throw new Error(`Unknown LLM_PROVIDER "${provider}". Supported providers: bedrock, mock`);
+  }
+
+  return new BedrockClient({
+    region: process.env.AWS_REGION || 'us-east-1',
+    modelId: process.env.BEDROCK_MODEL_ID || 'anthropic.claude-3-5-sonnet-20241022-v2:0',
+    accessKeyId: process.env.AWS_ACCESS_KEY_ID || '',
+    secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY || '',
+    historyTokenBudget: parseInt(process.env.LLM_HISTORY_TOKEN_BUDGET || '30000')
+  });
+}
+
+// True when no model call leaves the machine: the mock provider or a cassette replay
+export function isOfflineProvider(): boolean {
+  return (process.env.LLM_PROVIDER || 'bedrock').toLowerCase() === 'mock' ||
+    process.env.LLM_CASSETTE_MODE?.toLowerCase() === 'replay';
+}
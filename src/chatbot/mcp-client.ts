@@ -1,13 +1,48 @@
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
 import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { ErrorCode } from '@modelcontextprotocol/sdk/types.js';
 import { MCPToolDefinition, ToolCall, ToolResult } from './types';
+import { classifyToolError } from './tool-errors';
+import { abortError } from '../utils/with-timeout';
+
+export interface MCPClientStatus {
+  connected: boolean;
+  reconnecting: boolean;
+  reconnectAttempts: number;
+  lastHeartbeat: string | null;
+  lastError: string | null;
+  toolCount: number;
+}
+
+export interface ToolCallOptions {
+  // Per-call timeout in milliseconds; defaults to MCP_TOOL_TIMEOUT_MS
+  timeout?: number;
+  // Aborting cancels the in-flight request and throws instead of returning a failed result
+  signal?: AbortSignal;
+}
+
+const DEFAULT_TOOL_TIMEOUT_MS = parseInt(process.env.MCP_TOOL_TIMEOUT_MS || '30000');
+const HEARTBEAT_INTERVAL_MS = parseInt(process.env.MCP_HEARTBEAT_INTERVAL_MS || '30000');
+const MAX_RECONNECT_DELAY_MS = 30000;
 
 export class MCPPlaywrightClient {
   private client: Client | null = null;
   private tools: MCPToolDefinition[] = [];
   private page: any = null; // Playwright Page object
 
+  // Connection supervision: a heartbeat ping detects a dead server child, which triggers reconnects with backoff
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private reconnectPromise: Promise<void> | null = null;
+  private reconnectAttempts = 0;
+  private lastHeartbeat: Date | null = null;
+  private lastError: string | null = null;
+  private closedByUser = false;
+  // Applied to every call while set; used by jobs that lease this client and must be cancellable
+  private abortSignal: AbortSignal | null = null;
+
   async connect(): Promise<void> {
+    this.closedByUser = false;
     try {
       console.log('DEBUG: MCPPlaywrightClient.connect called');
       
@@ -16,7 +51,7 @@ export class MCPPlaywrightClient {
         args: ['-a', 'npx', '@executeautomation/playwright-mcp-server']
       });
 
-      this.client = new Client(
+      const client = new Client(
         {
           name: 'playwright-chatbot',
           version: '1.0.0'
@@ -30,11 +65,16 @@ export class MCPPlaywrightClient {
         }
       );
 
-      await this.client.connect(transport);
+      // Fires when the xvfb/npx child exits or the pipe breaks
+      client.onclose = () => {
+        if (this.client === client) this.handleConnectionLost('MCP transport closed');
+      };
+
+      await client.connect(transport);
       console.log('DEBUG: MCP client connected');
 
       // Get available tools
-      const toolsResponse = await this.client.listTools();
+      const toolsResponse = await client.listTools();
       this.tools = toolsResponse.tools.map(tool => ({
         name: tool.name,
         description: tool.description,
@@ -48,34 +88,146 @@ export class MCPPlaywrightClient {
       console.log('DEBUG: Got tools from MCP server:', this.tools.length);
       console.log('DEBUG: Available tools:', this.tools.map(t => t.name));
 
+      // Only publish the client once the handshake succeeded, so callers never see a half-open connection
+      this.client = client;
+      this.reconnectAttempts = 0;
+      this.lastError = null;
+      this.lastHeartbeat = new Date();
+      this.startHeartbeat();
+
     } catch (error) {
       console.error('Failed to connect to MCP server:', error);
+      this.lastError = error.message;
       throw error;
     }
   }
 
-  getTools(): MCPToolDefinition[] {
-    return this.tools;
+  isConnected(): boolean {
+    return this.client !== null;
+  }
+
+  getStatus(): MCPClientStatus {
+    return {
+      connected: this.client !== null,
+      reconnecting: this.reconnectPromise !== null || this.reconnectTimer !== null,
+      reconnectAttempts: this.reconnectAttempts,
+      lastHeartbeat: this.lastHeartbeat ? this.lastHeartbeat.toISOString() : null,
+      lastError: this.lastError,
+      toolCount: this.tools.length
+    };
+  }
+
+  private startHeartbeat(): void {
+    this.stopHeartbeat();
+    this.heartbeatTimer = setInterval(async () => {
+      if (!this.client) return;
+      try {
+        await this.client.ping({ timeout: 5000 });
+        this.lastHeartbeat = new Date();
+      } catch (error) {
+        this.handleConnectionLost(`Heartbeat failed: ${error.message}`);
+      }
+    }, HEARTBEAT_INTERVAL_MS);
+    this.heartbeatTimer.unref();
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+
+  private handleConnectionLost(reason: string): void {
+    if (this.closedByUser || !this.client) return;
+
+    console.error(`❌ MCP connection lost: ${reason}`);
+    this.lastError = reason;
+    this.stopHeartbeat();
+    const client = this.client;
+    this.client = null;
+    client.close().catch(() => undefined);
+    this.scheduleReconnect();
   }
 
-  async callTools(toolCalls: ToolCall[]): Promise<ToolResult[]> {
+  // Exponential backoff: 1s, 2s, 4s ... capped at 30s, retried until connected or disconnect() is called
+  private scheduleReconnect(): void {
+    if (this.closedByUser || this.reconnectTimer || this.reconnectPromise) return;
+
+    const delay = Math.min(1000 * 2 ** this.reconnectAttempts, MAX_RECONNECT_DELAY_MS);
+    this.reconnectAttempts++;
+    console.log(`🔄 Reconnecting to MCP server in ${delay}ms (attempt ${this.reconnectAttempts})`);
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.reconnectPromise = this.connect()
+        .then(() => console.log('✅ MCP server reconnected'))
+        .catch(() => this.scheduleReconnect())
+        .finally(() => { this.reconnectPromise = null; });
+    }, delay);
+  }
+
+  // Waits for an in-flight reconnect so calls made during a brief outage still succeed
+  private async ensureConnected(): Promise<Client> {
+    if (!this.client && this.reconnectPromise) {
+      await this.reconnectPromise;
+    }
     if (!this.client) {
       throw new Error('MCP client not connected');
     }
+    return this.client;
+  }
+
+  getTools(): MCPToolDefinition[] {
+    return this.tools;
+  }
+
+  setAbortSignal(signal: AbortSignal | null): void {
+    this.abortSignal = signal;
+  }
+
+  async callTools(toolCalls: ToolCall[], options: ToolCallOptions = {}): Promise<ToolResult[]> {
+    const signal = options.signal || this.abortSignal || undefined;
+    if (signal?.aborted) {
+      throw abortError(signal);
+    }
+
+    const client = await this.ensureConnected();
+    const timeout = options.timeout || DEFAULT_TOOL_TIMEOUT_MS;
 
     const results: ToolResult[] = [];
 
     for (const toolCall of toolCalls) {
+      if (signal?.aborted) {
+        throw abortError(signal);
+      }
+
       try {
         console.log(`DEBUG: Calling tool: ${toolCall.name} with params:`, toolCall.parameters);
         
-        const result = await this.client.callTool({
+        const result = await client.callTool({
           name: toolCall.name,
           arguments: toolCall.parameters
-        });
+        }, undefined, { timeout, signal });
 
         console.log(`DEBUG: Tool ${toolCall.name} result:`, result);
 
+        if (result.isError) {
+          // The server ran the tool and it failed; its text content carries the Playwright error
+          const content: any[] = Array.isArray(result.content) ? result.content : [];
+          const message = content.filter(item => item?.type === 'text').map(item => item.text).join('\n').trim()
+            || `${toolCall.name} failed`;
+          results.push({
+            callId: toolCall.id,
+            result: result.content,
+            success: false,
+            error: message,
+            errorType: classifyToolError(toolCall.name, message),
+            isError: true
+          });
+          continue;
+        }
+
         results.push({
           callId: toolCall.id,
           result: result.content,
@@ -83,12 +235,20 @@ export class MCPPlaywrightClient {
         });
 
       } catch (error) {
+        if (signal?.aborted) {
+          throw abortError(signal);
+        }
+
         console.error(`Tool execution failed:`, error);
+        const timedOut = error?.code === ErrorCode.RequestTimeout;
+        const message = timedOut ? `${toolCall.name} timed out after ${timeout}ms` : (error?.message || 'Tool execution failed');
         results.push({
           callId: toolCall.id,
           result: [],
           success: false,
-          error: 'Tool execution failed'
+          error: message,
+          errorType: timedOut ? 'timeout' : classifyToolError(toolCall.name, message),
+          isError: false
         });
       }
     }
@@ -105,6 +265,12 @@ export class MCPPlaywrightClient {
   }
 
   disconnect(): void {
+    this.closedByUser = true;
+    this.stopHeartbeat();
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
     if (this.client) {
       this.client.close();
       this.client = null;
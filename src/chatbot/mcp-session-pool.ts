@@ -0,0 +1,284 @@
+import { MCPPlaywrightClient, MCPClientStatus } from './mcp-client';
+import { MCPToolDefinition } from './types';
+import { abortError } from '../utils/with-timeout';
+
+export interface MCPSessionLease {
+  sessionId: string;
+  owner: string;
+  client: MCPPlaywrightClient;
+  release(): void;
+}
+
+export interface LeaseOptions {
+  // Gives up waiting for a session when aborted
+  signal?: AbortSignal;
+}
+
+export interface MCPSessionPoolStatus {
+  connected: boolean;
+  // Whether the last browser the pool started came up; idle pools hold no sessions but are still ready
+  ready: boolean;
+  lastSpawnAt: string | null;
+  lastSpawnError: string | null;
+  maxSessions: number;
+  busy: number;
+  waiting: number;
+  sessions: Array<MCPClientStatus & { id: string; owner: string | null; leasedAt: string | null }>;
+}
+
+interface PooledSession {
+  id: string;
+  client: MCPPlaywrightClient;
+  owner: string | null;
+  leasedAt: Date | null;
+}
+
+interface LeaseWaiter {
+  owner: string;
+  resolve: (lease: MCPSessionLease) => void;
+  reject: (error: Error) => void;
+  timer?: NodeJS.Timeout;
+  settled: boolean;
+}
+
+// Each session is its own MCP server process and therefore its own browser. A learning job or test run keeps
+// its lease for its whole lifetime (a chat session until it goes idle), and a released browser is closed rather
+// than handed on, so no owner ever sees another owner's page. Idle sessions are only ones that were never leased.
+export class MCPSessionPool {
+  private sessions: PooledSession[] = [];
+  private waiters: LeaseWaiter[] = [];
+  private nextSessionNumber = 1;
+  private tools: MCPToolDefinition[] = [];
+  private lastSpawn: { ok: boolean; at: Date; error?: string } | null = null;
+  private probeTimer?: NodeJS.Timeout;
+  private stopped = false;
+
+  constructor(
+    private maxSessions: number = parseInt(process.env.MCP_POOL_SIZE || '3'),
+    private leaseTimeoutMs: number = parseInt(process.env.MCP_POOL_LEASE_TIMEOUT_MS || '300000'),
+    private createClient: () => MCPPlaywrightClient = () => new MCPPlaywrightClient(),
+    private probeRetryMs: number = parseInt(process.env.MCP_POOL_PROBE_RETRY_MS || '30000')
+  ) {}
+
+  // Starts a probe browser up front so tool definitions are available before anyone leases; it stays
+  // idle and clean for the first caller. A failed probe is retried every probeRetryMs until one succeeds.
+  async start(): Promise<void> {
+    clearTimeout(this.probeTimer);
+    const session = this.createSession('startup');
+    try {
+      await this.connectSession(session);
+    } catch (error: any) {
+      this.sessions = this.sessions.filter(s => s !== session);
+      this.scheduleProbe();
+      this.dispatch();
+      throw error;
+    }
+    this.makeIdle(session);
+  }
+
+  lease(owner: string, options: LeaseOptions = {}): Promise<MCPSessionLease> {
+    return new Promise((resolve, reject) => {
+      const { signal } = options;
+      if (signal?.aborted) {
+        reject(abortError(signal));
+        return;
+      }
+
+      const waiter: LeaseWaiter = { owner, resolve, reject, settled: false };
+      const giveUp = (error: Error) => {
+        if (waiter.settled) return;
+        waiter.settled = true;
+        clearTimeout(waiter.timer);
+        this.waiters = this.waiters.filter(w => w !== waiter);
+        reject(error);
+      };
+
+      waiter.timer = setTimeout(
+        () => giveUp(new Error(`No browser session available for ${owner} after ${this.leaseTimeoutMs}ms (pool size ${this.maxSessions})`)),
+        this.leaseTimeoutMs
+      );
+      signal?.addEventListener('abort', () => giveUp(abortError(signal)), { once: true });
+
+      this.waiters.push(waiter);
+      this.dispatch();
+    });
+  }
+
+  async withSession<T>(owner: string, fn: (client: MCPPlaywrightClient) => Promise<T>, options: LeaseOptions = {}): Promise<T> {
+    const lease = await this.lease(owner, options);
+    try {
+      return await fn(lease.client);
+    } finally {
+      lease.release();
+    }
+  }
+
+  // Every session runs the same MCP server, so the last one to connect describes the tools
+  getTools(): MCPToolDefinition[] {
+    return this.tools;
+  }
+
+  getStatus(): MCPSessionPoolStatus {
+    const sessions = this.sessions.map(session => ({
+      id: session.id,
+      owner: session.owner,
+      leasedAt: session.leasedAt ? session.leasedAt.toISOString() : null,
+      ...session.client.getStatus()
+    }));
+
+    return {
+      connected: sessions.some(session => session.connected),
+      ready: this.lastSpawn?.ok === true,
+      lastSpawnAt: this.lastSpawn ? this.lastSpawn.at.toISOString() : null,
+      lastSpawnError: this.lastSpawn?.error || null,
+      maxSessions: this.maxSessions,
+      busy: sessions.filter(session => session.owner !== null).length,
+      waiting: this.waiters.length,
+      sessions
+    };
+  }
+
+  shutdown(): void {
+    this.stopped = true;
+    clearTimeout(this.probeTimer);
+    for (const waiter of this.waiters) {
+      clearTimeout(waiter.timer);
+      waiter.settled = true;
+      waiter.reject(new Error('Browser session pool is shutting down'));
+    }
+    this.waiters = [];
+
+    for (const session of this.sessions) {
+      session.client.disconnect();
+    }
+    this.sessions = [];
+  }
+
+  // Hands idle sessions to waiters in FIFO order, starting new browsers while under maxSessions
+  private dispatch(): void {
+    while (this.waiters.length > 0) {
+      const waiter = this.waiters[0];
+      const idle = this.findIdleSession();
+
+      if (idle) {
+        this.waiters.shift();
+        this.assign(idle, waiter);
+      } else if (this.sessions.length < this.maxSessions) {
+        this.waiters.shift();
+        this.spawn(waiter);
+      } else {
+        break;
+      }
+    }
+  }
+
+  private findIdleSession(): PooledSession | undefined {
+    // Drop idle sessions whose server died and is not coming back; dispatch replaces them on demand
+    this.sessions = this.sessions.filter(session => {
+      if (session.owner !== null || this.isUsable(session)) return true;
+      console.warn(`⚠️ Discarding dead browser session ${session.id}`);
+      session.client.disconnect();
+      return false;
+    });
+
+    return this.sessions.find(session => session.owner === null);
+  }
+
+  private isUsable(session: PooledSession): boolean {
+    const status = session.client.getStatus();
+    return status.connected || status.reconnecting;
+  }
+
+  // Registered as busy while its browser starts, so dispatch neither hands it out nor discards it
+  private createSession(owner: string): PooledSession {
+    const session: PooledSession = {
+      id: `browser-${this.nextSessionNumber++}`,
+      client: this.createClient(),
+      owner,
+      leasedAt: new Date()
+    };
+    this.sessions.push(session);
+    console.log(`🌐 Starting browser session ${session.id} for ${owner} (${this.sessions.length}/${this.maxSessions})`);
+    return session;
+  }
+
+  // Every browser start, probe or lease, records whether the pool can currently start browsers
+  private async connectSession(session: PooledSession): Promise<void> {
+    try {
+      await session.client.connect();
+    } catch (error: any) {
+      this.lastSpawn = { ok: false, at: new Date(), error: error.message };
+      throw error;
+    }
+    this.tools = session.client.getTools();
+    this.lastSpawn = { ok: true, at: new Date() };
+  }
+
+  private scheduleProbe(): void {
+    if (this.stopped) return;
+    clearTimeout(this.probeTimer);
+    this.probeTimer = setTimeout(() => {
+      // A lease may have started a browser in the meantime
+      if (this.stopped || (this.lastSpawn?.ok && this.tools.length > 0)) return;
+      console.log('🔁 Retrying browser session probe');
+      this.start().catch(error => console.warn(`⚠️ Browser session probe failed: ${error.message}`));
+    }, this.probeRetryMs);
+    this.probeTimer.unref();
+  }
+
+  private spawn(waiter: LeaseWaiter): void {
+    const session = this.createSession(waiter.owner);
+
+    this.connectSession(session)
+      .then(() => this.assign(session, waiter))
+      .catch(error => {
+        console.error(`❌ Browser session ${session.id} failed to start:`, error.message);
+        this.sessions = this.sessions.filter(s => s !== session);
+        if (!waiter.settled) {
+          waiter.settled = true;
+          clearTimeout(waiter.timer);
+          waiter.reject(new Error(`Failed to start browser session: ${error.message}`));
+        }
+        this.dispatch();
+      });
+  }
+
+  private assign(session: PooledSession, waiter: LeaseWaiter): void {
+    if (waiter.settled) {
+      // The waiter gave up (timeout or abort) while its browser was starting; nobody used it, so it stays for the next caller
+      this.makeIdle(session);
+      return;
+    }
+
+    waiter.settled = true;
+    clearTimeout(waiter.timer);
+    session.owner = waiter.owner;
+    session.leasedAt = new Date();
+
+    let released = false;
+    waiter.resolve({
+      sessionId: session.id,
+      owner: waiter.owner,
+      client: session.client,
+      release: () => {
+        if (released) return;
+        released = true;
+        this.retire(session);
+      }
+    });
+  }
+
+  private makeIdle(session: PooledSession): void {
+    session.owner = null;
+    session.leasedAt = null;
+    this.dispatch();
+  }
+
+  // A released browser still holds its owner's page and state, so it is closed and its slot freed for a new one
+  private retire(session: PooledSession): void {
+    console.log(`🧹 Closing browser session ${session.id} released by ${session.owner}`);
+    this.sessions = this.sessions.filter(s => s !== session);
+    session.client.disconnect();
+    this.dispatch();
+  }
+}
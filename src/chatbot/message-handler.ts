@@ -1,18 +1,39 @@
-import { BedrockClient } from './bedrock-client';
+import { LLMProvider, isOfflineProvider } from './llm-provider';
 import { MCPPlaywrightClient } from './mcp-client';
-import { ChatMessage, BedrockResponse, ToolCall, ToolResult } from './types';
+import { MCPSessionPool, MCPSessionLease } from './mcp-session-pool';
+import { SlashCommandHandler } from './slash-commands';
+import { describeToolError } from './tool-errors';
+import { PROPOSE_PLAN_TOOL, isPlanProposal, planStepsFrom } from './plan-tool';
+import { ChatMessage, BedrockResponse, ToolCall, ToolResult, ChatStreamListener, ExecutionPlan, PlanStep } from './types';
 
 export class MessageHandler {
-  private bedrockClient: BedrockClient;
-  private mcpClient: MCPPlaywrightClient;
+  private bedrockClient: LLMProvider;
+  private sessionPool: MCPSessionPool;
+  private owner: string;
+  // Browser pinned to this chat session from its first tool call until it sits idle for browserIdleMs
+  // or the session ends, so idle chat tabs do not keep the pool's browsers from learning and test runs
+  private browserLease: Promise<MCPSessionLease> | null = null;
+  private browserIdleMs: number;
+  private browserIdleTimer?: NodeJS.Timeout;
   private conversationHistory: ChatMessage[] = [];
-
-  constructor(bedrockClient: BedrockClient, mcpClient: MCPPlaywrightClient) {
+  private maxToolIterations: number;
+  private slashCommands?: SlashCommandHandler;
+  private pendingPlan: ExecutionPlan | null = null;
+
+  constructor(
+    bedrockClient: LLMProvider,
+    sessionPool: MCPSessionPool,
+    options: { maxToolIterations?: number; slashCommands?: SlashCommandHandler; owner?: string; browserIdleMs?: number } = {}
+  ) {
     this.bedrockClient = bedrockClient;
-    this.mcpClient = mcpClient;
+    this.sessionPool = sessionPool;
+    this.owner = options.owner || 'chat';
+    this.maxToolIterations = options.maxToolIterations || parseInt(process.env.CHAT_MAX_TOOL_ITERATIONS || '10');
+    this.slashCommands = options.slashCommands;
+    this.browserIdleMs = options.browserIdleMs || parseInt(process.env.CHAT_BROWSER_IDLE_MS || '300000');
   }
 
-  async processMessage(userMessage: string): Promise<ChatMessage> {
+  async processMessage(userMessage: string, listener: ChatStreamListener = {}): Promise<ChatMessage> {
     console.log('DEBUG: MessageHandler.processMessage called with:', userMessage);
 
     // Add user message to history
@@ -25,41 +46,31 @@ export class MessageHandler {
     this.conversationHistory.push(userMsg);
 
     try {
-      // Check if this is a compound command
-      const compoundCommands = this.parseCompoundCommand(userMessage);
-      
-      if (compoundCommands.length > 1) {
-        console.log('DEBUG: Detected compound command, generating multiple tool calls');
-        return await this.executeCompoundCommand(compoundCommands, userMessage);
-      }
+      // A new message supersedes any plan still waiting for confirmation
+      this.pendingPlan = null;
 
-      // Single command - use normal Bedrock flow
-      const tools = this.mcpClient.getTools();
-      const bedrockResponse = await this.bedrockClient.generateResponse(
-        this.conversationHistory.map(msg => ({
-          role: msg.role,
-          content: msg.content
-        })),
-        tools
-      );
-
-      const assistantMsg: ChatMessage = {
-        id: this.generateId(),
-        role: 'assistant',
-        content: bedrockResponse.content,
-        timestamp: new Date(),
-        toolCalls: bedrockResponse.toolCalls
-      };
+      // /learn, /generate, /run, ... drive the orchestrators instead of the browser tools
+      if (this.slashCommands?.isCommand(userMessage)) {
+        const commandMsg: ChatMessage = {
+          id: this.generateId(),
+          role: 'assistant',
+          content: await this.slashCommands.execute(userMessage, listener),
+          timestamp: new Date()
+        };
+        this.conversationHistory.push(commandMsg);
+        return commandMsg;
+      }
 
-      if (bedrockResponse.toolCalls && bedrockResponse.toolCalls.length > 0) {
-        const toolResults = await this.mcpClient.callTools(bedrockResponse.toolCalls);
-        assistantMsg.toolResults = toolResults;
-        const toolResultsText = this.formatToolResults(toolResults);
-        assistantMsg.content += `\n\n**Tool Execution Results:**\n${toolResultsText}`;
+      // Offline there is no model to propose plans, so the regex rules plan compound commands they fully cover
+      if (isOfflineProvider() && this.parseCompoundCommand(userMessage).length > 1) {
+        const plan = await this.createRulePlan(userMessage);
+        if (plan) {
+          return this.proposePlan(plan);
+        }
       }
 
-      this.conversationHistory.push(assistantMsg);
-      return assistantMsg;
+      // The model drives the tools until it has an answer, or proposes a plan for the user to confirm first
+      return await this.runToolLoop(listener, userMessage);
 
     } catch (error) {
       console.error('Error processing message:', error);
@@ -74,6 +85,140 @@ export class MessageHandler {
     }
   }
 
+  // Model → tools → tool_result → model, until the model answers without tool calls, proposes a plan or the cap is hit.
+  // Each step is kept in history so the next request carries its tool_use/tool_result blocks.
+  private async runToolLoop(listener: ChatStreamListener, request: string, priorToolCalls: ToolCall[] = [], priorToolResults: ToolResult[] = []): Promise<ChatMessage> {
+    const tools = [...this.sessionPool.getTools(), PROPOSE_PLAN_TOOL];
+    const allToolCalls: ToolCall[] = [...priorToolCalls];
+    const allToolResults: ToolResult[] = [...priorToolResults];
+    let finalMsg: ChatMessage | null = null;
+
+    for (let iteration = 1; iteration <= this.maxToolIterations; iteration++) {
+      const history = this.conversationHistory.map(msg => ({
+        role: msg.role,
+        content: msg.content,
+        toolCalls: msg.toolCalls,
+        toolResults: msg.toolResults
+      }));
+
+      // Separate the text of successive model turns in the streamed output
+      let streamedText = false;
+      const onText = (delta: string) => {
+        if (!streamedText && iteration > 1) listener.onText?.('\n\n');
+        streamedText = true;
+        listener.onText?.(delta);
+      };
+
+      const bedrockResponse = this.bedrockClient.generateResponseStream && listener.onText
+        ? await this.bedrockClient.generateResponseStream(history, tools, onText)
+        : await this.bedrockClient.generateResponse(history, tools);
+
+      const stepMsg: ChatMessage = {
+        id: this.generateId(),
+        role: 'assistant',
+        content: bedrockResponse.content,
+        timestamp: new Date(),
+        toolCalls: bedrockResponse.toolCalls
+      };
+      this.conversationHistory.push(stepMsg);
+
+      if (!bedrockResponse.toolCalls || bedrockResponse.toolCalls.length === 0) {
+        finalMsg = stepMsg;
+        break;
+      }
+
+      // A proposed plan replaces any other calls of the turn; nothing runs until the user confirms it
+      const planCall = bedrockResponse.toolCalls.find(isPlanProposal);
+      if (planCall) {
+        stepMsg.toolCalls = [planCall];
+        try {
+          const steps = planStepsFrom(planCall);
+          this.validatePlanSteps(steps);
+          stepMsg.toolResults = [{ callId: planCall.id, success: true, result: 'Plan shown to the user to confirm, edit or cancel.' }];
+          return this.proposePlan({ id: this.generateId(), request, steps, source: 'llm' });
+        } catch (error: any) {
+          console.warn(`⚠️ Unusable plan from the model: ${error.message}`);
+          stepMsg.toolResults = [{ callId: planCall.id, success: false, result: null, error: error.message }];
+          continue;
+        }
+      }
+
+      console.log(`DEBUG: Tool loop iteration ${iteration}: executing ${bedrockResponse.toolCalls.length} tool calls`);
+      stepMsg.toolResults = await this.executeTools(bedrockResponse.toolCalls, listener);
+      allToolCalls.push(...bedrockResponse.toolCalls);
+      allToolResults.push(...stepMsg.toolResults);
+    }
+
+    let content = finalMsg?.content || '';
+    if (!finalMsg) {
+      console.log(`⚠️ Tool loop stopped after ${this.maxToolIterations} iterations`);
+      content = `I stopped after ${this.maxToolIterations} rounds of tool calls without finishing. Here is what I did so far.`;
+      this.conversationHistory.push({ id: this.generateId(), role: 'assistant', content, timestamp: new Date() });
+    }
+
+    // The reply shown in the chat collects every tool call made along the way
+    const replyMsg: ChatMessage = {
+      id: finalMsg?.id || this.generateId(),
+      role: 'assistant',
+      content,
+      timestamp: new Date(),
+      toolCalls: allToolCalls,
+      toolResults: allToolResults
+    };
+    if (allToolResults.length > 0) {
+      replyMsg.content += `\n\n**Tool Execution Results:**\n${this.formatToolResults(allToolResults)}`;
+    }
+
+    return replyMsg;
+  }
+
+  // One call at a time so progress can be reported per tool
+  private async executeTools(toolCalls: ToolCall[], listener: ChatStreamListener): Promise<ToolResult[]> {
+    const results: ToolResult[] = [];
+
+    for (const toolCall of toolCalls) {
+      listener.onToolStart?.(toolCall);
+      const startTime = Date.now();
+      const client = await this.acquireBrowser();
+      const [result] = await client.callTools([toolCall]);
+      this.scheduleBrowserRelease();
+      results.push(result);
+      listener.onToolEnd?.(toolCall, result, Date.now() - startTime);
+    }
+
+    return results;
+  }
+
+  // Leased on the first tool call, so plain conversation never holds a browser; concurrent calls share the lease
+  private async acquireBrowser(): Promise<MCPPlaywrightClient> {
+    clearTimeout(this.browserIdleTimer);
+    if (!this.browserLease) {
+      const lease = this.sessionPool.lease(this.owner);
+      this.browserLease = lease;
+      lease.catch(() => {
+        if (this.browserLease === lease) this.browserLease = null;
+      });
+    }
+    return (await this.browserLease).client;
+  }
+
+  // Called when the chat session ends or its browser has been idle; the pool closes the browser instead of handing its page to someone else
+  releaseBrowser(): void {
+    clearTimeout(this.browserIdleTimer);
+    const lease = this.browserLease;
+    this.browserLease = null;
+    lease?.then(l => l.release(), () => undefined);
+  }
+
+  private scheduleBrowserRelease(): void {
+    clearTimeout(this.browserIdleTimer);
+    this.browserIdleTimer = setTimeout(() => {
+      console.log(`💤 Releasing browser for ${this.owner} after ${this.browserIdleMs}ms without tool calls`);
+      this.releaseBrowser();
+    }, this.browserIdleMs);
+    this.browserIdleTimer.unref();
+  }
+
   private parseCompoundCommand(message: string): string[] {
     const commands: string[] = [];
     const lowerMessage = message.toLowerCase();
@@ -96,42 +241,124 @@ export class MessageHandler {
     return commands.map(cmd => cmd.trim()).filter(cmd => cmd.length > 0);
   }
 
-  private async executeCompoundCommand(commands: string[], originalMessage: string): Promise<ChatMessage> {
-    const allToolCalls: ToolCall[] = [];
-    const allToolResults: ToolResult[] = [];
-    let responseText = `I'll execute your compound request: "${originalMessage}"\n\nHere's what I'm going to do:\n`;
-
-    // Generate tool calls for each command
-    for (let i = 0; i < commands.length; i++) {
-      const command = commands[i];
-      responseText += `${i + 1}. ${command}\n`;
-      
-      const toolCalls = await this.generateToolCallsForCommand(command);
-      allToolCalls.push(...toolCalls);
+  async confirmPlan(planId: string, editedSteps?: PlanStep[], listener: ChatStreamListener = {}): Promise<ChatMessage> {
+    const plan = this.pendingPlan;
+    if (!plan || plan.id !== planId) {
+      throw new Error('This plan is no longer pending. Send the request again to get a new plan.');
     }
 
-    responseText += `\nLet's execute these actions:\n`;
+    const steps = editedSteps || plan.steps;
+    this.validatePlanSteps(steps);
+    this.pendingPlan = null;
+
+    this.conversationHistory.push({
+      id: this.generateId(),
+      role: 'user',
+      content: editedSteps ? 'Run the plan with my edits.' : 'Run the plan.',
+      timestamp: new Date()
+    });
+
+    try {
+      const toolCalls: ToolCall[] = steps.map(step => ({ id: this.generateId(), name: step.tool, parameters: step.parameters || {} }));
+      console.log(`DEBUG: Executing confirmed plan ${plan.id} with ${toolCalls.length} steps`);
+      const toolResults = await this.executeTools(toolCalls, listener);
+
+      const planMsg: ChatMessage = {
+        id: this.generateId(),
+        role: 'assistant',
+        content: `Executed ${steps.length} planned steps for: "${plan.request}"`,
+        timestamp: new Date(),
+        toolCalls: toolCalls,
+        toolResults: toolResults
+      };
+      this.conversationHistory.push(planMsg);
+
+      // Rule-based plans run offline, where there is no model to look at the results
+      if (plan.source === 'rules') {
+        return {
+          ...planMsg,
+          content: `${planMsg.content}\n\n**Tool Execution Results:**\n${this.formatToolResults(toolResults)}`
+        };
+      }
+
+      // Let the model observe the results, finish anything left and answer the original question
+      return await this.runToolLoop(listener, plan.request, toolCalls, toolResults);
+    } catch (error) {
+      console.error('Error executing plan:', error);
+      const errorMsg: ChatMessage = {
+        id: this.generateId(),
+        role: 'assistant',
+        content: `Sorry, I encountered an error: ${error.message}`,
+        timestamp: new Date()
+      };
+      this.conversationHistory.push(errorMsg);
+      return errorMsg;
+    }
+  }
 
-    // Execute all tool calls
-    if (allToolCalls.length > 0) {
-      console.log(`DEBUG: Executing ${allToolCalls.length} tool calls for compound command`);
-      const toolResults = await this.mcpClient.callTools(allToolCalls);
-      allToolResults.push(...toolResults);
-      const toolResultsText = this.formatToolResults(toolResults);
-      responseText += `\n**Tool Execution Results:**\n${toolResultsText}`;
+  cancelPlan(planId: string): ChatMessage {
+    if (this.pendingPlan?.id === planId) {
+      this.pendingPlan = null;
     }
 
-    const assistantMsg: ChatMessage = {
+    const cancelMsg: ChatMessage = {
+      id: this.generateId(),
+      role: 'assistant',
+      content: 'Plan cancelled. Nothing was executed.',
+      timestamp: new Date()
+    };
+    this.conversationHistory.push(cancelMsg);
+    return cancelMsg;
+  }
+
+  getPendingPlan(): ExecutionPlan | null {
+    return this.pendingPlan;
+  }
+
+  private proposePlan(plan: ExecutionPlan): ChatMessage {
+    this.pendingPlan = plan;
+
+    const planMsg: ChatMessage = {
       id: this.generateId(),
       role: 'assistant',
-      content: responseText,
+      content: `Here's my plan for "${plan.request}":\n` +
+        plan.steps.map((step, index) => `${index + 1}. ${step.description} (${step.tool})`).join('\n') +
+        `\n\nConfirm to run it, edit the steps, or cancel.`,
       timestamp: new Date(),
-      toolCalls: allToolCalls,
-      toolResults: allToolResults
+      plan: plan
     };
+    this.conversationHistory.push(planMsg);
+    return planMsg;
+  }
+
+  private async createRulePlan(userMessage: string): Promise<ExecutionPlan | null> {
+    const perCommand = await Promise.all(this.parseCompoundCommand(userMessage).map(command => this.generateToolCallsForCommand(command)));
+    if (!perCommand.every(toolCalls => toolCalls.length > 0)) {
+      return null;
+    }
+
+    const steps = perCommand.flat().map(toolCall => ({
+      description: `${toolCall.name.replace('playwright_', '')} ${JSON.stringify(toolCall.parameters)}`,
+      tool: toolCall.name,
+      parameters: toolCall.parameters
+    }));
+    return { id: this.generateId(), request: userMessage, steps, source: 'rules' };
+  }
+
+  private validatePlanSteps(steps: PlanStep[]): void {
+    if (!Array.isArray(steps) || steps.length === 0) {
+      throw new Error('The plan has no steps.');
+    }
 
-    this.conversationHistory.push(assistantMsg);
-    return assistantMsg;
+    const toolNames = new Set(this.sessionPool.getTools().map(tool => tool.name));
+    for (const step of steps) {
+      if (!step || typeof step.tool !== 'string' || (toolNames.size > 0 && !toolNames.has(step.tool))) {
+        throw new Error(`Unknown tool in plan step: ${step?.tool}`);
+      }
+      if (step.parameters && typeof step.parameters !== 'object') {
+        throw new Error(`Parameters for ${step.tool} must be an object`);
+      }
+    }
   }
 
   private async generateToolCallsForCommand(command: string): Promise<ToolCall[]> {
@@ -235,7 +462,7 @@ export class MessageHandler {
       const status = result.success ? '✅' : '❌';
       const resultText = result.success
         ? JSON.stringify(result.result, null, 2)
-        : `Error: ${result.error}`;
+        : `Error: ${describeToolError(result)}`;
 
       return `${status} Tool execution ${result.success ? 'succeeded' : 'failed'}:\n${resultText}`;
     }).join('\n\n');
@@ -251,7 +478,7 @@ export class MessageHandler {
   }
 
   async getAvailableTools(): Promise<any[]> {
-    return this.mcpClient.getTools();
+    return this.sessionPool.getTools();
   }
 
   getConversationHistory(): ChatMessage[] {
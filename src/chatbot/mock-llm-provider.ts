@@ -0,0 +1,167 @@
+import * as fs from 'fs';
+import { BedrockResponse, MCPToolDefinition, ToolCall } from './types';
+import { LLMProvider, LLMMessage, ModelInvocationParams } from './llm-provider';
+import { fnv1a } from '../utils/string-hash';
+
+export interface MockResponse {
+  content: string;
+  toolCalls?: ToolCall[];
+  finishReason?: BedrockResponse['finishReason'];
+}
+
+// A fixture rule answers any prompt containing `match` (or matching it as a regex when `regex` is set)
+export interface MockRule extends MockResponse {
+  match: string;
+  regex?: boolean;
+  // Stop matching after this many uses; unlimited when omitted
+  times?: number;
+}
+
+// Shape of the LLM_MOCK_FIXTURES JSON file
+export interface MockFixtures {
+  script?: MockResponse[];
+  rules?: MockRule[];
+  default?: MockResponse;
+  embeddingDimensions?: number;
+}
+
+export interface MockCall {
+  method: 'generateResponse' | 'generateMultimodalResponse' | 'invokeModel';
+  prompt: string;
+  response: any;
+}
+
+// Deterministic, offline LLMProvider: scripted responses are served first, in order,
+// then fixture rules by prompt match, then the default. Embeddings are hashed bag-of-words
+// vectors so identical text always maps to the identical vector.
+export class MockLLMProvider implements LLMProvider {
+  readonly name = 'mock';
+  readonly modelId = 'mock';
+  readonly calls: MockCall[] = [];
+
+  private script: MockResponse[] = [];
+  private rules: Array<MockRule & { uses: number }> = [];
+  private defaultResponse: MockResponse = { content: '{}' };
+  private embeddingDimensions = 1024;
+
+  constructor(fixturesPath?: string) {
+    if (fixturesPath) {
+      this.loadFixtures(fixturesPath);
+    }
+  }
+
+  loadFixtures(fixturesPath: string): void {
+    if (!fs.existsSync(fixturesPath)) {
+      throw new Error(`Mock LLM fixtures not found: ${fixturesPath}`);
+    }
+
+    const fixtures: MockFixtures = JSON.parse(fs.readFileSync(fixturesPath, 'utf-8'));
+    this.script.push(...(fixtures.script || []));
+    (fixtures.rules || []).forEach(rule => this.addRule(rule));
+    if (fixtures.default) {
+      this.defaultResponse = fixtures.default;
+    }
+    if (fixtures.embeddingDimensions) {
+      this.embeddingDimensions = fixtures.embeddingDimensions;
+    }
+
+    console.log(`🧪 Loaded mock LLM fixtures from ${fixturesPath}: ${this.script.length} scripted, ${this.rules.length} rules`);
+  }
+
+  enqueue(...responses: MockResponse[]): void {
+    this.script.push(...responses);
+  }
+
+  addRule(rule: MockRule): void {
+    this.rules.push({ ...rule, uses: 0 });
+  }
+
+  setDefault(response: MockResponse): void {
+    this.defaultResponse = response;
+  }
+
+  async generateResponse(messages: LLMMessage[], tools: MCPToolDefinition[]): Promise<BedrockResponse> {
+    return this.respond('generateResponse', messages);
+  }
+
+  // Emits the scripted content word by word so streaming consumers can be exercised offline
+  async generateResponseStream(messages: LLMMessage[], tools: MCPToolDefinition[], onText: (delta: string) => void): Promise<BedrockResponse> {
+    const response = this.respond('generateResponse', messages);
+    for (const delta of response.content.match(/\S+\s*|\s+/g) || []) {
+      onText(delta);
+    }
+    return response;
+  }
+
+  async generateMultimodalResponse(messages: Array<{ role: string; content: any }>, tools: MCPToolDefinition[] = []): Promise<BedrockResponse> {
+    return this.respond('generateMultimodalResponse', messages);
+  }
+
+  async invokeModel(params: ModelInvocationParams): Promise<any> {
+    const body = JSON.parse(params.body);
+
+    // Titan embedding request
+    if (typeof body.inputText === 'string') {
+      const response = {
+        embedding: this.embed(body.inputText),
+        inputTextTokenCount: body.inputText.split(/\s+/).filter(Boolean).length
+      };
+      this.calls.push({ method: 'invokeModel', prompt: body.inputText, response: { dimensions: response.embedding.length } });
+      return response;
+    }
+
+    // Anthropic messages request
+    const prompt = (body.messages || []).map((message: any) => this.textOf(message.content)).join('\n');
+    const reply = this.pick(prompt);
+    const response = { content: [{ type: 'text', text: reply.content }], stop_reason: 'end_turn' };
+    this.calls.push({ method: 'invokeModel', prompt, response });
+    return response;
+  }
+
+  private respond(method: MockCall['method'], messages: Array<{ role: string; content: any }>): BedrockResponse {
+    const prompt = this.textOf(messages[messages.length - 1]?.content);
+    const reply = this.pick(prompt);
+    const response: BedrockResponse = {
+      content: reply.content,
+      toolCalls: (reply.toolCalls || []).map((call, index) => ({ ...call, id: call.id || `mock-tool-${this.calls.length}-${index}` })),
+      finishReason: reply.finishReason || (reply.toolCalls?.length ? 'tool_calls' : 'stop')
+    };
+
+    this.calls.push({ method, prompt, response });
+    return response;
+  }
+
+  private pick(prompt: string): MockResponse {
+    if (this.script.length > 0) {
+      return this.script.shift()!;
+    }
+
+    const rule = this.rules.find(candidate =>
+      (candidate.times === undefined || candidate.uses < candidate.times) &&
+      (candidate.regex ? new RegExp(candidate.match, 'i').test(prompt) : prompt.includes(candidate.match))
+    );
+    if (rule) {
+      rule.uses++;
+      return rule;
+    }
+
+    return this.defaultResponse;
+  }
+
+  private textOf(content: any): string {
+    if (typeof content === 'string') return content;
+    if (Array.isArray(content)) return content.map(block => this.textOf(block)).join('\n');
+    if (content && typeof content.text === 'string') return content.text;
+    return '';
+  }
+
+  private embed(text: string): number[] {
+    const vector = new Array(this.embeddingDimensions).fill(0);
+    for (const token of text.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean)) {
+      vector[fnv1a(token) % this.embeddingDimensions] += 1;
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)) || 1;
+    return vector.map(value => value / norm);
+  }
+}
@@ -0,0 +1,46 @@
+import { MCPToolDefinition, PlanStep, ToolCall } from './types';
+
+// Not an MCP tool: offered to the model next to the Playwright tools so it can propose a multi-step plan
+// for confirmation in the same call that would otherwise start running tools
+export const PROPOSE_PLAN_TOOL: MCPToolDefinition = {
+  name: 'propose_plan',
+  description: 'Show the user an ordered plan of Playwright tool calls to confirm, edit or cancel before anything runs. ' +
+    'Use it instead of calling tools when the request needs several browser actions in a fixed order. ' +
+    'Do not use it for a single action, a question or conversation. Treat phrases such as "salt and pepper" as one value, not as separate steps.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      steps: {
+        type: 'array',
+        description: 'Tool calls in the order they should run',
+        items: {
+          type: 'object',
+          properties: {
+            description: { type: 'string', description: 'What the step does' },
+            tool: { type: 'string', description: 'Name of the Playwright tool to call' },
+            parameters: { type: 'object', description: 'Arguments for the tool' }
+          },
+          required: ['description', 'tool', 'parameters']
+        }
+      }
+    },
+    required: ['steps']
+  }
+};
+
+export function isPlanProposal(toolCall: ToolCall): boolean {
+  return toolCall.name === PROPOSE_PLAN_TOOL.name;
+}
+
+export function planStepsFrom(toolCall: ToolCall): PlanStep[] {
+  const steps = toolCall.parameters?.steps;
+  if (!Array.isArray(steps) || steps.length < 2) {
+    throw new Error('A plan needs at least two steps; call the tool directly for a single action.');
+  }
+
+  return steps.map((step: any) => ({
+    description: String(step?.description || step?.tool),
+    tool: String(step?.tool),
+    parameters: step?.parameters || {}
+  }));
+}
@@ -0,0 +1,163 @@
+import { PlaywrightLearningOrchestrator } from '../utils/playwright-learning-orchestrator';
+import { LearningJobManager } from '../utils/learning-job-manager';
+import { TestGenerationOrchestrator } from '../utils/test-generation-orchestrator';
+import { TestStorage } from '../utils/storage';
+import { TestRun } from '../models';
+import { ChatStreamListener } from './types';
+
+export interface SlashCommandDependencies {
+  playwrightLearningOrchestrator: PlaywrightLearningOrchestrator;
+  learningJobs: LearningJobManager;
+  testGenerationOrchestrator: TestGenerationOrchestrator;
+  testStorage: TestStorage;
+}
+
+const HELP_TEXT = `**Available commands:**
+- \`/learn <url>\` - learn a website using the TSV files from the last learning run
+- \`/generate\` - generate test cases from the latest learning results
+- \`/run <tag|id|all>\` - execute the matching test cases
+- \`/results\` - show the most recent test runs
+- \`/report <runId>\` - summarize one test run
+- \`/help\` - show this list`;
+
+// Chat front-end for the learning/generation/execution pipeline; every command answers with a short markdown summary
+export class SlashCommandHandler {
+  constructor(private deps: SlashCommandDependencies) {}
+
+  isCommand(message: string): boolean {
+    return /^\/[a-z]+\b/i.test(message.trim());
+  }
+
+  async execute(message: string, listener: ChatStreamListener = {}): Promise<string> {
+    const [command, ...args] = message.trim().split(/\s+/);
+    const argument = args.join(' ');
+
+    switch (command.toLowerCase()) {
+      case '/learn':
+        return this.learn(argument, listener);
+      case '/generate':
+        return this.generate(listener);
+      case '/run':
+        return this.run(argument, listener);
+      case '/results':
+        return this.results();
+      case '/report':
+        return this.report(argument);
+      case '/help':
+        return HELP_TEXT;
+      default:
+        return `Unknown command \`${command}\`.\n\n${HELP_TEXT}`;
+    }
+  }
+
+  private async learn(url: string, listener: ChatStreamListener): Promise<string> {
+    if (!url) {
+      return 'Usage: `/learn <url>`';
+    }
+
+    const tsvFiles = this.deps.playwrightLearningOrchestrator.getCurrentTSVFiles();
+    if (!tsvFiles || tsvFiles.length === 0) {
+      return 'No TSV data available. Run a learning session with TSV files from the Learning tab first, then `/learn` can repeat it for other URLs.';
+    }
+
+    const websiteUrl = url.startsWith('http') ? url : `https://${url}`;
+    // Runs as a regular learning job, so it queues behind (and can be cancelled like) jobs from the Learning tab
+    const job = this.deps.learningJobs.start(websiteUrl, tsvFiles);
+    listener.onText?.(`Learning ${websiteUrl} with ${tsvFiles.length} TSV file(s) as job \`${job.id}\`. This can take several minutes...\n\n`);
+
+    const finished = await this.deps.learningJobs.waitForJob(job.id);
+    if (finished.status !== 'completed') {
+      return `❌ Learning ${finished.status}: ${finished.error || 'unknown error'}`;
+    }
+
+    const results = finished.learningResults.results || {};
+    return `✅ Learned ${websiteUrl} (learning run \`${finished.learningRunId}\`)
+- UI elements: ${results.uiElements ?? 0}
+- TSV fields: ${results.dbFields ?? 0}
+- Relationships: ${results.relationships ?? 0}
+
+Run \`/generate\` to create test cases.`;
+  }
+
+  private async generate(listener: ChatStreamListener): Promise<string> {
+    const learningRun = await this.deps.testStorage.getLatestLearningRun();
+    if (!learningRun) {
+      return 'No learning results yet. Run `/learn <url>` or the Learning tab first.';
+    }
+
+    listener.onText?.(`Generating test cases from learning run \`${learningRun.id}\` (v${learningRun.version} of ${learningRun.websiteUrl})...\n\n`);
+    const generation = await this.deps.testGenerationOrchestrator.generateTestCases(learningRun.learningResults, {}, learningRun.websiteUrl);
+    if (!generation.success || !generation.testCases) {
+      return `❌ Test generation failed: ${generation.error || 'unknown error'}`;
+    }
+
+    const preview = generation.testCases.slice(0, 10).map(testCase => `- \`${testCase.id}\` ${testCase.name}`);
+    return `✅ Generated ${generation.testCases.length} test cases
+${preview.join('\n')}${generation.testCases.length > preview.length ? `\n- ... and ${generation.testCases.length - preview.length} more` : ''}
+
+Run \`/run all\` or \`/run <tag|id>\` to execute them.`;
+  }
+
+  private async run(selector: string, listener: ChatStreamListener): Promise<string> {
+    if (!selector) {
+      return 'Usage: `/run <tag|id|all>`';
+    }
+
+    const testCases = await this.deps.testStorage.getAllTestCases();
+    const matching = selector === 'all'
+      ? testCases
+      : testCases.filter(testCase => testCase.id === selector || testCase.tags.includes(selector));
+    if (matching.length === 0) {
+      return `No test cases match \`${selector}\`.`;
+    }
+
+    listener.onText?.(`Running ${matching.length} test case(s)...\n\n`);
+    const execution = await this.deps.testGenerationOrchestrator.executeTestCases(matching.map(testCase => testCase.id));
+    if (!execution.success || !execution.run) {
+      return `❌ Test execution failed: ${execution.error || 'unknown error'}`;
+    }
+
+    return this.summarizeRun(execution.run);
+  }
+
+  private async results(): Promise<string> {
+    const runs = (await this.deps.testStorage.getAllTestRuns()).slice(0, 5);
+    if (runs.length === 0) {
+      return 'No test runs yet. Use `/run <tag|id|all>` to execute tests.';
+    }
+
+    return `**Recent test runs:**\n` + runs.map(run => {
+      const passed = run.results.filter(r => r.status === 'passed').length;
+      return `- \`${run.id}\` ${run.status}: ${passed}/${run.results.length} passed (${run.duration}ms)`;
+    }).join('\n') + '\n\nUse `/report <runId>` for details.';
+  }
+
+  private async report(runId: string): Promise<string> {
+    if (!runId) {
+      return 'Usage: `/report <runId>`';
+    }
+
+    const run = await this.deps.testStorage.getTestRun(runId);
+    if (!run) {
+      return `Test run \`${runId}\` not found. Use \`/results\` to list recent runs.`;
+    }
+
+    return this.summarizeRun(run);
+  }
+
+  private summarizeRun(run: TestRun): string {
+    const count = (status: string) => run.results.filter(r => r.status === status).length;
+    const failures = run.results
+      .filter(r => r.status !== 'passed')
+      .slice(0, 10)
+      .map(r => `- ❌ ${r.testCaseName || r.testCaseId}: ${r.error || r.validation?.message || r.status}`);
+
+    return `**Test run \`${run.id}\`** (${run.environment})
+- Passed: ${count('passed')}
+- Failed: ${count('failed')}
+- Errors: ${count('error')}
+- Duration: ${run.duration}ms
+${failures.length > 0 ? `\n${failures.join('\n')}\n` : ''}
+Report: /test-reports/${run.id}/summary-report.html`;
+  }
+}
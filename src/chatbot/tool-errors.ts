@@ -0,0 +1,47 @@
+import { ToolErrorType, ToolResult } from './types';
+
+// Playwright/MCP error text → failure category. Order matters: a click that times out while waiting
+// for its locator is a missing selector, not a generic timeout.
+const ERROR_PATTERNS: Array<{ type: ToolErrorType; pattern: RegExp }> = [
+  { type: 'connection', pattern: /not connected|connection closed|transport closed|browser has been closed|target (page, context or browser )?closed/i },
+  { type: 'navigation', pattern: /net::ERR_|NS_ERROR_|navigation failed|page\.goto|navigating to|ERR_NAME_NOT_RESOLVED|ERR_CONNECTION/i },
+  { type: 'selector', pattern: /waiting for (selector|locator)|no (element|node) found|failed to find element|strict mode violation|element is not (visible|attached|enabled)|not an? (<select>|select) element|unknown engine|is not a valid selector/i },
+  { type: 'evaluation', pattern: /evaluation failed|page\.evaluate|ReferenceError|SyntaxError|TypeError|is not a function|is not defined/i },
+  { type: 'timeout', pattern: /timed? ?out|timeout \d+ms exceeded|request timeout/i }
+];
+
+export function classifyToolError(toolName: string, message: string): ToolErrorType {
+  const match = ERROR_PATTERNS.find(({ pattern }) => pattern.test(message));
+  if (match) {
+    return match.type;
+  }
+
+  // Unrecognised failures of these tools are still attributable to their phase
+  if (toolName === 'playwright_navigate') return 'navigation';
+  if (toolName === 'playwright_evaluate') return 'evaluation';
+  return 'unknown';
+}
+
+const ERROR_LABELS: Record<ToolErrorType, string> = {
+  selector: 'Selector not found',
+  timeout: 'Timed out',
+  navigation: 'Navigation error',
+  evaluation: 'Script evaluation error',
+  connection: 'Browser connection error',
+  unknown: 'Tool error'
+};
+
+export function describeToolError(result: ToolResult): string {
+  return `${ERROR_LABELS[result.errorType || 'unknown']}: ${result.error || 'Tool execution failed'}`;
+}
+
+// Thrown by callers that turn a failed ToolResult into an exception, keeping its category
+export class ToolCallError extends Error {
+  readonly errorType: ToolErrorType;
+
+  constructor(readonly toolName: string, result: ToolResult) {
+    super(describeToolError(result));
+    this.name = 'ToolCallError';
+    this.errorType = result.errorType || 'unknown';
+  }
+}
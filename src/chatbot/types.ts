@@ -1,10 +1,26 @@
 export interface ChatMessage {
   id: string;
   role: 'user' | 'assistant' | 'system';
-  content: string | { type: 'image'; text: string; data: string };
+  content: string | { type: 'image'; text: string; data: string; mediaType?: string };
   timestamp: Date;
   toolCalls?: ToolCall[];
   toolResults?: ToolResult[];
+  plan?: ExecutionPlan;
+}
+
+export interface PlanStep {
+  description: string;
+  tool: string;
+  parameters: Record<string, any>;
+}
+
+// Ordered tool steps for a multi-step request, shown to the user for confirmation before running.
+// source is 'llm' for model-produced plans and 'rules' for the offline regex fallback.
+export interface ExecutionPlan {
+  id: string;
+  request: string;
+  steps: PlanStep[];
+  source: 'llm' | 'rules';
 }
 
 export interface ToolCall {
@@ -13,11 +29,23 @@ export interface ToolCall {
   id: string;
 }
 
+export type ToolErrorType = 'selector' | 'timeout' | 'navigation' | 'evaluation' | 'connection' | 'unknown';
+
 export interface ToolResult {
   callId: string;
   result: any;
   success: boolean;
   error?: string;
+  errorType?: ToolErrorType;
+  // True when the MCP server reported the failure itself (isError), false when the call threw
+  isError?: boolean;
+}
+
+// Progress callbacks for a chat message while it is being processed
+export interface ChatStreamListener {
+  onText?(delta: string): void;
+  onToolStart?(toolCall: ToolCall): void;
+  onToolEnd?(toolCall: ToolCall, result: ToolResult, duration: number): void;
 }
 
 export interface BedrockResponse {
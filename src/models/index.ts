@@ -10,7 +10,7 @@ export interface TestCase {
   status: 'draft' | 'ready' | 'executed' | 'failed';
   
   // Test Structure (LLM generates these)
-  steps: string[];              // Step-by-step instructions
+  steps: Array<string | TestStep>;  // Step-by-step instructions (strings are descriptive only)
   selectors: string[];          // CSS selectors for UI elements
   testData: any;                // Test data based on TSV fields
   expectedResults: string[];    // Expected outcomes
@@ -20,6 +20,7 @@ export interface TestCase {
   testValues?: string[];        // Values to test
   type?: string;                // Test type (filter_test, search_test, etc.)
   websiteUrl?: string;          // Target website URL
+  expectedCount?: number;       // Expected result count after filtering
   
   // Metadata
   createdAt: Date;
@@ -27,18 +28,43 @@ export interface TestCase {
   tags: string[];
 }
 
+// Executable step produced by test generation
+export interface TestStep {
+  action: 'navigate' | 'click' | 'select' | 'fill' | 'press' | 'validate';
+  selector?: string;            // For validate steps: the results table (default: the first table)
+  value?: string;
+  url?: string;
+  expectedCount?: number;
+  description: string;
+}
+
+export interface TestStepResult {
+  stepIndex: number;
+  action: string;
+  description: string;
+  status: 'passed' | 'failed' | 'skipped';
+  duration: number;
+  error?: string;
+  errorType?: string;  // selector | timeout | navigation | evaluation | connection | unknown
+}
+
 export interface TestResult {
   testCaseId: string;
+  testCaseName?: string;
+  runId?: string;
   status: 'passed' | 'failed' | 'skipped' | 'error';
   startTime: Date;
   endTime?: Date;
   duration: number;
   screenshots: string[];
   error?: string;
+  stepResults?: TestStepResult[];
+  stateChanges?: any;
   
   // TSV Validation results
   validation?: {
     passed: boolean;
+    skipped?: boolean;            // No TSV data for the case's site; passed is false but nothing failed
     expectedCount: number;
     actualCount: number;
     validationChecks: any;
@@ -46,6 +72,20 @@ export interface TestResult {
   };
 }
 
+// One execution of a set of test cases
+export interface TestRun {
+  id: string;
+  status: 'running' | 'completed' | 'error';
+  startTime: Date;
+  endTime?: Date;
+  duration: number;
+  environment: string;
+  websiteUrl?: string;
+  testCaseIds: string[];
+  results: TestResult[];
+  error?: string;
+}
+
 export interface TestData {
   id: string;
   testCaseId: string;
@@ -80,6 +120,21 @@ export interface LearningResults {
   };
 }
 
+// One stored learning run; version numbers the runs against the same website URL
+export interface LearningRun {
+  id: string;
+  version: number;
+  websiteUrl: string;
+  tsvFingerprint: string;   // sha256 of the TSV file names and contents
+  tsvFiles: Array<{ name: string; size: number }>;
+  createdAt: Date;
+  jobId?: string;
+  learningResults: LearningResults;
+  executionTrace: any[];
+  llmCalls: any[];
+  screenshotAnalysis?: any;
+}
+
 export interface DatabaseAnalysis {
   totalFields: number;
   fieldNames: string[];
@@ -3,9 +3,11 @@ import express from 'express';
 import { createServer } from 'http';
 import { Server as SocketIOServer } from 'socket.io';
 import path from 'path';
-import { MessageHandler } from '../chatbot/message-handler';
-import { BedrockClient } from '../chatbot/bedrock-client';
-import { MCPPlaywrightClient } from '../chatbot/mcp-client';
+import { ChatSessionManager } from '../chatbot/chat-session-manager';
+import { SlashCommandHandler } from '../chatbot/slash-commands';
+import { ChatStreamListener } from '../chatbot/types';
+import { createLLMProvider, isOfflineProvider } from '../chatbot/llm-provider';
+import { MCPSessionPool } from '../chatbot/mcp-session-pool';
 import { S3Uploader } from '../utils/s3-client';
 import { logger } from '../utils/logger';
 import { upload } from '../middleware/upload';
@@ -13,8 +15,16 @@ import multer from 'multer';
 import { FileProcessor } from '../utils/file-processor';
 import { LearningOrchestrator } from '../utils/learning-orchestrator';
 import { PlaywrightLearningOrchestrator } from '../utils/playwright-learning-orchestrator';
+import { LearningJobManager, LearningJob } from '../utils/learning-job-manager';
+import { detectSiteDrift, renderDriftReportHtml } from '../utils/site-drift-detector';
 import { TestGenerationOrchestrator } from '../utils/test-generation-orchestrator';
 import { TestStorage } from '../utils/storage';
+import { TestReportWriter } from '../utils/test-report-writer';
+import { withTimeout } from '../utils/with-timeout';
+import { toJUnitXml, toJsonReport } from '../utils/test-report-formats';
+import { PlaywrightSpecExporter } from '../utils/playwright-spec-exporter';
+import { toFeatureFiles, fromFeature } from '../utils/gherkin-converter';
+import { draftTestFromChat, buildTestCaseFromChat } from '../utils/chat-test-converter';
 import { SimpleRAGClient } from '../utils/simple-rag-client';
 
 const app = express();
@@ -36,39 +46,50 @@ io.on('connection', (socket) => {
 });
 
 const PORT = process.env.PORT || 8080;
+const SCREENSHOTS_DIR = process.env.SCREENSHOTS_DIR || '/home/ubuntu/Downloads';
+const TEST_REPORTS_DIR = process.env.TEST_REPORTS_DIR || '/home/ubuntu/playwright-chatbot/test-reports';
+const TEST_EXPORTS_DIR = process.env.TEST_EXPORTS_DIR || path.join(process.cwd(), 'data', 'exports');
 
 // Initialize clients
-const bedrockClient = new BedrockClient({
-  region: process.env.AWS_REGION || 'us-east-1',
-  modelId: process.env.BEDROCK_MODEL_ID || 'anthropic.claude-3-5-sonnet-20241022-v2:0',
-  accessKeyId: process.env.AWS_ACCESS_KEY_ID || '',
-  secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY || ''
-});
+// LLM_PROVIDER selects Bedrock or the offline mock provider
+const llmProvider = createLLMProvider();
 
-const mcpClient = new MCPPlaywrightClient();
+// Isolated browsers (one MCP server each) leased by chat, learning and test runs; MCP_POOL_SIZE caps them
+const mcpPool = new MCPSessionPool();
 const s3Uploader = new S3Uploader();
 
 // Connect to MCP server with better error handling
-mcpClient.connect()
+mcpPool.start()
   .then(() => {
     logger.info('MCP server connected successfully');
   })
   .catch(error => {
     logger.warn('MCP server connection failed (this is expected on Windows):', error.message);
-    logger.info('Server will continue without MCP functionality');
+    logger.info('Server will continue and retry the MCP connection in the background');
   });
 
-const messageHandler = new MessageHandler(bedrockClient, mcpClient);
-
 // Initialize the learning orchestrator
-const learningOrchestrator = new LearningOrchestrator(bedrockClient);
+const learningOrchestrator = new LearningOrchestrator(llmProvider);
 
 // Initialize the playwright learning orchestrator
-const playwrightLearningOrchestrator = new PlaywrightLearningOrchestrator(bedrockClient, mcpClient);
+const playwrightLearningOrchestrator = new PlaywrightLearningOrchestrator(llmProvider, mcpPool);
 
 // Initialize Phase 2 components
 const testStorage = new TestStorage();
-const testGenerationOrchestrator = new TestGenerationOrchestrator(bedrockClient, mcpClient, testStorage, playwrightLearningOrchestrator);
+
+// Learning runs in the background; trace entries and status changes go to the job's Socket.IO room.
+// Completed runs are stored as versioned LearningRuns in testStorage.
+const learningJobs = new LearningJobManager(playwrightLearningOrchestrator, testStorage, {
+  onStep: (job, traceEntry) => io.to(`learning-job:${job.id}`).emit('learning-step', { jobId: job.id, entry: traceEntry }),
+  onStatus: (job) => io.to(`learning-job:${job.id}`).emit('learning-job', summarizeLearningJob(job))
+});
+const testReportWriter = new TestReportWriter(TEST_REPORTS_DIR, SCREENSHOTS_DIR);
+const playwrightSpecExporter = new PlaywrightSpecExporter(TEST_EXPORTS_DIR);
+const testGenerationOrchestrator = new TestGenerationOrchestrator(llmProvider, mcpPool, testStorage, playwrightLearningOrchestrator, testReportWriter);
+
+// Each chat client gets its own MessageHandler; idle sessions expire after CHAT_SESSION_IDLE_MS
+const slashCommands = new SlashCommandHandler({ playwrightLearningOrchestrator, learningJobs, testGenerationOrchestrator, testStorage });
+const chatSessions = new ChatSessionManager(llmProvider, mcpPool, parseInt(process.env.CHAT_SESSION_IDLE_MS || '1800000'), slashCommands);
 
 // Middleware
 app.use(express.json({ limit: '50mb' }));
@@ -76,15 +97,52 @@ app.use(express.urlencoded({ limit: '50mb', extended: true }));
 app.use(express.static(path.join(__dirname, '../../public')));
 
 // Serve screenshots from Playwright MCP Downloads folder
-app.use('/screenshots', express.static('/home/ubuntu/Downloads'));
+app.use('/screenshots', express.static(SCREENSHOTS_DIR));
 
 // Serve test reports from the correct location
-app.use('/test-reports', express.static('/home/ubuntu/playwright-chatbot/test-reports'));
+app.use('/test-reports', express.static(TEST_REPORTS_DIR));
 
 // Routes
+// Liveness of the MCP browser server and the LLM backend; ?deep=1 also sends a tiny prompt to the model
+app.get('/api/health', async (req, res) => {
+  try {
+    const mcp = mcpPool.getStatus();
+    const llm: any = {
+      provider: llmProvider.name,
+      modelId: llmProvider.modelId,
+      offline: isOfflineProvider()
+    };
+
+    if (req.query.deep === '1' || req.query.deep === 'true') {
+      const startTime = Date.now();
+      try {
+        await withTimeout(llmProvider.generateResponse([{ role: 'user', content: 'ping' }], []), 15000, 'LLM health check timed out after 15000ms');
+        llm.reachable = true;
+      } catch (error) {
+        llm.reachable = false;
+        llm.error = error.message;
+      }
+      llm.latencyMs = Date.now() - startTime;
+    }
+
+    const healthy = mcp.ready && llm.reachable !== false;
+    res.status(healthy ? 200 : 503).json({
+      success: healthy,
+      status: healthy ? 'ok' : 'degraded',
+      mcp,
+      llm,
+      chatSessions: chatSessions.getSessionCount(),
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    logger.error('Health check failed:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
 app.get('/api/tools', async (req, res) => {
   try {
-    const tools = mcpClient.getTools();
+    const tools = mcpPool.getTools();
     res.json({ tools });
   } catch (error) {
     logger.error('Failed to get tools:', error);
@@ -192,22 +250,11 @@ app.post('/api/learn/upload/screenshot', upload.single('screenshot'), async (req
             return res.status(400).json({ success: false, error: 'No screenshot uploaded' });
         }
         
-        // Create BedrockClient with proper configuration
-        const { BedrockClient } = require('../chatbot/bedrock-client');
-        const bedrockClient = new BedrockClient({
-            region: process.env.AWS_REGION || 'us-east-1',
-            modelId: process.env.BEDROCK_MODEL_ID || 'anthropic.claude-3-5-sonnet-20241022-v2:0',
-            accessKeyId: process.env.AWS_ACCESS_KEY_ID || '',
-            secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY || ''
-        });
-        
         // Process screenshot with AI analysis
-        const { LearningOrchestrator } = require('../utils/learning-orchestrator');
-        const learningOrchestrator = new LearningOrchestrator(bedrockClient);
         const analysis = await learningOrchestrator.analyzeUIScreenshot(req.file);
         
-        // Store analysis results globally for API access
-        (global as any).screenshotAnalysis = analysis;
+        // Combined with the HTML analysis of the next learning run and stored with it
+        playwrightLearningOrchestrator.setScreenshotAnalysis(analysis);
         
         res.json({ 
             success: true, 
@@ -242,9 +289,11 @@ app.post('/api/learn/upload/schema', upload.single('schema'), (req, res) => {
 });
 
 // New API endpoint for screenshot analysis
-app.get('/api/learn/screenshot-analysis', (req, res) => {
+app.get('/api/learn/screenshot-analysis', async (req, res) => {
     try {
-        const analysis = (global as any).screenshotAnalysis;
+        // Falls back to the analysis stored with the latest learning run after a restart
+        const analysis = playwrightLearningOrchestrator.getScreenshotAnalysis()
+            || (await testStorage.getLatestLearningRun())?.screenshotAnalysis;
         if (!analysis) {
             return res.status(404).json({ 
                 success: false, 
@@ -264,51 +313,235 @@ app.get('/api/learn/screenshot-analysis', (req, res) => {
     }
 });
 
+// Queues a learning job and answers immediately; follow it via GET /api/learn/jobs/:id or the job's socket room
 app.post('/api/learn/start', async (req, res) => {
     try {
         const { websiteUrl, tsvData } = req.body;
         
-        console.log('Starting learning process with:', { websiteUrl, tsvDataCount: tsvData?.length });
+        if (!websiteUrl) {
+            return res.status(400).json({
+                success: false,
+                error: 'websiteUrl is required'
+            });
+        }
         
-        const learningResults = await playwrightLearningOrchestrator.performCompleteLearning(websiteUrl, tsvData || []);
+        console.log('Starting learning process with:', { websiteUrl, tsvDataCount: tsvData?.length });
         
-        // Store learning results globally for frontend access
-        (global as any).learningResults = learningResults;
+        const job = learningJobs.start(websiteUrl, tsvData || []);
         
-        res.json({
+        res.status(202).json({
             success: true,
-            message: 'Learning process completed successfully with Playwright',
-            results: learningResults.results,
-            analysis: learningResults.analysis,
-            executionTrace: learningResults.executionTrace, // Add this line
-            llmResponses: (global as any).llmResponses || [], // Add this line
-            lastLLMResponse: (global as any).lastLLMResponse || null // Add this line
+            message: 'Learning job started',
+            jobId: job.id,
+            job: summarizeLearningJob(job)
         });
     } catch (error) {
         console.error('Learning process failed:', error);
         res.status(500).json({ 
             success: false, 
-            error: error.message,
-            executionTrace: [] // Add this line
+            error: error.message
+        });
+    }
+});
+
+app.get('/api/learn/jobs', (req, res) => {
+    try {
+        res.json({
+            success: true,
+            jobs: learningJobs.listJobs().map(job => summarizeLearningJob(job))
+        });
+    } catch (error) {
+        console.error('Failed to list learning jobs:', error);
+        res.status(500).json({ success: false, error: error.message });
+    }
+});
+
+app.get('/api/learn/jobs/:id', (req, res) => {
+    try {
+        const job = learningJobs.getJob(req.params.id);
+        if (!job) {
+            return res.status(404).json({ success: false, error: `Learning job ${req.params.id} not found` });
+        }
+        
+        const llmResponses = job.learningResults?.llmResponses || [];
+        res.json({
+            success: true,
+            job: summarizeLearningJob(job),
+            executionTrace: job.trace,
+            // Only set once the job completed, in the shape /api/learn/start used to return
+            learningRunId: job.learningRunId,
+            results: job.learningResults?.results,
+            analysis: job.learningResults?.analysis,
+            llmResponses: llmResponses,
+            lastLLMResponse: llmResponses.length > 0 ? llmResponses[llmResponses.length - 1] : null
+        });
+    } catch (error) {
+        console.error('Failed to get learning job:', error);
+        res.status(500).json({ success: false, error: error.message });
+    }
+});
+
+app.post('/api/learn/jobs/:id/cancel', (req, res) => {
+    try {
+        const job = learningJobs.getJob(req.params.id);
+        if (!job) {
+            return res.status(404).json({ success: false, error: `Learning job ${req.params.id} not found` });
+        }
+        if (learningJobs.isFinished(job)) {
+            return res.status(409).json({ success: false, error: `Learning job ${job.id} already ${job.status}`, job: summarizeLearningJob(job) });
+        }
+        
+        learningJobs.cancel(job.id);
+        res.json({
+            success: true,
+            message: job.status === 'cancelled' ? 'Learning job cancelled' : 'Cancellation requested; the job stops at its next browser or LLM call',
+            job: summarizeLearningJob(job)
         });
+    } catch (error) {
+        console.error('Failed to cancel learning job:', error);
+        res.status(500).json({ success: false, error: error.message });
+    }
+});
+
+function summarizeLearningJob(job: LearningJob) {
+    return {
+        id: job.id,
+        websiteUrl: job.websiteUrl,
+        tsvFileCount: job.tsvFileCount,
+        status: job.status,
+        createdAt: job.createdAt,
+        startedAt: job.startedAt,
+        finishedAt: job.finishedAt,
+        steps: job.trace.length,
+        lastStep: job.trace.length > 0 ? job.trace[job.trace.length - 1].action : undefined,
+        learningRunId: job.learningRunId,
+        error: job.error
+    };
+}
+
+// Stored learning runs, newest first; ?websiteUrl= lists the versions for one site
+app.get('/api/learn/runs', async (req, res) => {
+    try {
+        const websiteUrl = typeof req.query.websiteUrl === 'string' ? req.query.websiteUrl : undefined;
+        const learningRuns = await testStorage.getAllLearningRuns(websiteUrl);
+        
+        res.json({
+            success: true,
+            runs: learningRuns.map(run => ({
+                id: run.id,
+                version: run.version,
+                websiteUrl: run.websiteUrl,
+                tsvFingerprint: run.tsvFingerprint,
+                tsvFiles: run.tsvFiles,
+                createdAt: run.createdAt,
+                jobId: run.jobId,
+                results: run.learningResults.results,
+                llmCallCount: run.llmCalls.length
+            }))
+        });
+    } catch (error) {
+        console.error('Failed to list learning runs:', error);
+        res.status(500).json({ success: false, error: error.message });
+    }
+});
+
+app.get('/api/learn/runs/:id', async (req, res) => {
+    try {
+        const learningRun = await testStorage.getLearningRun(req.params.id);
+        if (!learningRun) {
+            return res.status(404).json({ success: false, error: `Learning run ${req.params.id} not found` });
+        }
+        
+        res.json({ success: true, run: learningRun });
+    } catch (error) {
+        console.error('Failed to get learning run:', error);
+        res.status(500).json({ success: false, error: error.message });
+    }
+});
+
+app.delete('/api/learn/runs/:id', async (req, res) => {
+    try {
+        const learningRun = await testStorage.getLearningRun(req.params.id);
+        if (!learningRun) {
+            return res.status(404).json({ success: false, error: `Learning run ${req.params.id} not found` });
+        }
+        
+        await testStorage.deleteLearningRun(learningRun.id);
+        res.json({ success: true, message: `Learning run ${learningRun.id} deleted` });
+    } catch (error) {
+        console.error('Failed to delete learning run:', error);
+        res.status(500).json({ success: false, error: error.message });
+    }
+});
+
+// Site drift between two stored learning runs: UI elements, option sets, selectors and field mappings
+app.get('/api/learn/runs/:baseId/diff/:targetId', async (req, res) => {
+    try {
+        const [base, target] = await Promise.all([
+            testStorage.getLearningRun(req.params.baseId),
+            testStorage.getLearningRun(req.params.targetId)
+        ]);
+        if (!base || !target) {
+            const missingId = !base ? req.params.baseId : req.params.targetId;
+            return res.status(404).json({ success: false, error: `Learning run ${missingId} not found` });
+        }
+        
+        res.json({ success: true, drift: detectSiteDrift(base, target) });
+    } catch (error) {
+        console.error('Failed to diff learning runs:', error);
+        res.status(500).json({ success: false, error: error.message });
+    }
+});
+
+app.get('/api/learn/runs/:baseId/diff/:targetId/html', async (req, res) => {
+    try {
+        const [base, target] = await Promise.all([
+            testStorage.getLearningRun(req.params.baseId),
+            testStorage.getLearningRun(req.params.targetId)
+        ]);
+        if (!base || !target) {
+            const missingId = !base ? req.params.baseId : req.params.targetId;
+            return res.status(404).json({ success: false, error: `Learning run ${missingId} not found` });
+        }
+        
+        res.type('text/html');
+        res.send(renderDriftReportHtml(detectSiteDrift(base, target)));
+    } catch (error) {
+        console.error('Failed to render drift report:', error);
+        res.status(500).json({ success: false, error: error.message });
     }
 });
 
 // Phase 2: Test Generation API endpoints
 app.post('/api/test/generate', async (req, res) => {
     try {
-        const { learningResults, testOptions } = req.body;
+        const { learningRunId, testOptions } = req.body;
+        let { learningResults } = req.body;
+        let websiteUrl: string | undefined = testOptions?.websiteUrl;
+        
+        // Prefer a stored learning run over a results blob sent by the client
+        if (learningRunId) {
+            const learningRun = await testStorage.getLearningRun(learningRunId);
+            if (!learningRun) {
+                return res.status(404).json({
+                    success: false,
+                    error: `Learning run ${learningRunId} not found`
+                });
+            }
+            learningResults = learningRun.learningResults;
+            websiteUrl = learningRun.websiteUrl;
+        }
         
         if (!learningResults) {
             return res.status(400).json({
                 success: false,
-                error: 'Learning results are required'
+                error: 'learningRunId or learning results are required'
             });
         }
         
         console.log('Starting test generation with learning results:', learningResults);
         
-        const testGeneration = await testGenerationOrchestrator.generateTestCases(learningResults, testOptions);
+        const testGeneration = await testGenerationOrchestrator.generateTestCases(learningResults, testOptions, websiteUrl);
         
         if (testGeneration.success) {
             res.json({
@@ -432,6 +665,7 @@ app.post('/api/test/execute', async (req, res) => {
             res.json({
                 success: true,
                 message: 'Test execution completed',
+                runId: execution.run?.id,
                 results: execution.results,
                 statistics: execution.statistics
             });
@@ -455,7 +689,7 @@ app.get('/api/test/reports', async (req, res) => {
     try {
         const fs = require('fs');
         const path = require('path');
-        const reportsDir = '/home/ubuntu/playwright-chatbot/test-reports';
+        const reportsDir = TEST_REPORTS_DIR;
         
         if (!fs.existsSync(reportsDir)) {
             return res.json({ success: true, runs: [] });
@@ -477,7 +711,9 @@ app.get('/api/test/reports', async (req, res) => {
                         failed: metadata.failed,
                         error: metadata.error,
                         duration: metadata.duration,
-                        summaryReportUrl: `/test-reports/${runId}/summary-report.html`
+                        summaryReportUrl: `/test-reports/${runId}/summary-report.html`,
+                        junitReportUrl: `/api/test/reports/${runId}/junit`,
+                        jsonReportUrl: `/api/test/reports/${runId}/json`
                     };
                 }
                 
@@ -489,7 +725,9 @@ app.get('/api/test/reports', async (req, res) => {
                     failed: 0,
                     error: 0,
                     duration: 0,
-                    summaryReportUrl: `/test-reports/${runId}/summary-report.html`
+                    summaryReportUrl: `/test-reports/${runId}/summary-report.html`,
+                    junitReportUrl: `/api/test/reports/${runId}/junit`,
+                    jsonReportUrl: `/api/test/reports/${runId}/json`
                 };
             })
             .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
@@ -504,9 +742,63 @@ app.get('/api/test/reports', async (req, res) => {
     }
 });
 
+// CI report downloads, rendered from the stored TestRun
+app.get('/api/test/reports/:runId/junit', async (req, res) => {
+    try {
+        const testRun = await testStorage.getTestRun(req.params.runId);
+        if (!testRun) {
+            return res.status(404).json({ success: false, error: 'Test run not found' });
+        }
+        
+        const testCases = await testStorage.getAllTestCases();
+        res.type('application/xml');
+        res.attachment(`${testRun.id}-junit.xml`);
+        res.send(toJUnitXml(testRun, testCases));
+    } catch (error) {
+        console.error('Failed to export JUnit report:', error);
+        res.status(500).json({ 
+            success: false, 
+            error: 'Failed to export JUnit report' 
+        });
+    }
+});
+
+app.get('/api/test/reports/:runId/json', async (req, res) => {
+    try {
+        const testRun = await testStorage.getTestRun(req.params.runId);
+        if (!testRun) {
+            return res.status(404).json({ success: false, error: 'Test run not found' });
+        }
+        
+        const testCases = await testStorage.getAllTestCases();
+        res.attachment(`${testRun.id}-report.json`);
+        res.json(toJsonReport(testRun, testCases));
+    } catch (error) {
+        console.error('Failed to export JSON report:', error);
+        res.status(500).json({ 
+            success: false, 
+            error: 'Failed to export JSON report' 
+        });
+    }
+});
+
 app.get('/api/test/results', async (req, res) => {
     try {
-        const testResults = await testStorage.getAllTestResults();
+        const { runId, testCaseId } = req.query as { runId?: string; testCaseId?: string };
+        
+        let testResults;
+        if (runId) {
+            testResults = await testStorage.getTestResultsByRun(runId);
+            if (testCaseId) {
+                testResults = testResults.filter(result => result.testCaseId === testCaseId);
+            }
+        } else if (testCaseId) {
+            // History of one test case across all runs
+            testResults = await testStorage.getTestResultHistory(testCaseId);
+        } else {
+            testResults = await testStorage.getAllTestResults();
+        }
+        
         res.json({
             success: true,
             testResults: testResults,
@@ -521,6 +813,57 @@ app.get('/api/test/results', async (req, res) => {
     }
 });
 
+app.get('/api/test/runs', async (req, res) => {
+    try {
+        const testRuns = await testStorage.getAllTestRuns();
+        
+        // Listing omits per-case results; fetch a single run for those
+        const runs = testRuns.map(({ results, ...run }) => ({
+            ...run,
+            totalTests: results.length,
+            passed: results.filter(result => result.status === 'passed').length,
+            failed: results.filter(result => result.status === 'failed').length,
+            error: results.filter(result => result.status === 'error').length
+        }));
+        
+        res.json({
+            success: true,
+            runs,
+            count: runs.length
+        });
+    } catch (error) {
+        console.error('Failed to list test runs:', error);
+        res.status(500).json({ 
+            success: false, 
+            error: 'Failed to list test runs' 
+        });
+    }
+});
+
+app.get('/api/test/runs/:id', async (req, res) => {
+    try {
+        const testRun = await testStorage.getTestRun(req.params.id);
+        
+        if (testRun) {
+            res.json({
+                success: true,
+                run: testRun
+            });
+        } else {
+            res.status(404).json({
+                success: false,
+                error: 'Test run not found'
+            });
+        }
+    } catch (error) {
+        console.error('Failed to get test run:', error);
+        res.status(500).json({ 
+            success: false, 
+            error: 'Failed to retrieve test run' 
+        });
+    }
+});
+
 app.get('/api/test/statistics', async (req, res) => {
     try {
         const statistics = await testStorage.getTestStatistics();
@@ -539,9 +882,12 @@ app.get('/api/test/statistics', async (req, res) => {
 
 app.post('/api/test/export', async (req, res) => {
     try {
-        const { format = 'json' } = req.body;
+        const { format = 'json', testCaseIds } = req.body;
         
-        const testCases = await testStorage.exportTestCases();
+        let testCases = await testStorage.exportTestCases();
+        if (Array.isArray(testCaseIds)) {
+            testCases = testCases.filter(tc => testCaseIds.includes(tc.id));
+        }
         
         if (format === 'json') {
             res.json({
@@ -549,10 +895,26 @@ app.post('/api/test/export', async (req, res) => {
                 testCases: testCases,
                 count: testCases.length
             });
+        } else if (format === 'playwright') {
+            const { bundle, files } = await playwrightSpecExporter.exportProject(testCases);
+            res.json({
+                success: true,
+                format: 'playwright',
+                downloadUrl: `/api/test/exports/${bundle}/zip`,
+                files: files,
+                count: testCases.length
+            });
+        } else if (format === 'gherkin') {
+            res.json({
+                success: true,
+                format: 'gherkin',
+                files: toFeatureFiles(testCases),
+                count: testCases.length
+            });
         } else {
             res.status(400).json({
                 success: false,
-                error: 'Only JSON format is currently supported'
+                error: `Unsupported export format "${format}". Supported formats: json, playwright, gherkin`
             });
         }
     } catch (error) {
@@ -564,9 +926,49 @@ app.post('/api/test/export', async (req, res) => {
     }
 });
 
+// Download an exported Playwright project as a ZIP
+app.get('/api/test/exports/:bundle/zip', async (req, res) => {
+    try {
+        const zip = await playwrightSpecExporter.zipBundle(req.params.bundle);
+        if (!zip) {
+            return res.status(404).json({ success: false, error: 'Export bundle not found' });
+        }
+        
+        res.type('application/zip');
+        res.attachment(`${req.params.bundle}.zip`);
+        res.send(zip);
+    } catch (error) {
+        console.error('Failed to download export bundle:', error);
+        res.status(500).json({ 
+            success: false, 
+            error: 'Failed to download export bundle' 
+        });
+    }
+});
+
 app.post('/api/test/import', async (req, res) => {
     try {
-        const { testCases } = req.body;
+        const { format = 'json', features } = req.body;
+        let { testCases } = req.body;
+        
+        if (format === 'gherkin') {
+            // Accepts one .feature text or an array of them; re-imported ids update the existing cases
+            const featureTexts = Array.isArray(features) ? features : [features];
+            if (featureTexts.some(text => typeof text !== 'string' || !text.trim())) {
+                return res.status(400).json({
+                    success: false,
+                    error: 'Feature file content is required'
+                });
+            }
+            
+            testCases = featureTexts.flatMap(text => fromFeature(text));
+            for (const testCase of testCases) {
+                const existing = await testStorage.getTestCase(testCase.id);
+                if (existing) {
+                    testCase.createdAt = existing.createdAt;
+                }
+            }
+        }
         
         if (!testCases || !Array.isArray(testCases)) {
             return res.status(400).json({
@@ -580,7 +982,8 @@ app.post('/api/test/import', async (req, res) => {
         res.json({
             success: true,
             message: 'Test cases imported successfully',
-            count: testCases.length
+            count: testCases.length,
+            testCaseIds: testCases.map((tc: any) => tc.id)
         });
     } catch (error) {
         console.error('Failed to import test cases:', error);
@@ -591,11 +994,63 @@ app.post('/api/test/import', async (req, res) => {
     }
 });
 
+// Save a chat session's browser actions as a TestCase: fetch the draft, then post the confirmed assertions
+app.get('/api/chat/sessions/:sessionId/test-draft', (req, res) => {
+    try {
+        const session = chatSessions.getSession(req.params.sessionId);
+        if (!session) {
+            return res.status(404).json({ success: false, error: 'Chat session not found' });
+        }
+        
+        res.json({
+            success: true,
+            draft: draftTestFromChat(session.handler.getConversationHistory())
+        });
+    } catch (error) {
+        console.error('Failed to build test draft from chat:', error);
+        res.status(500).json({ success: false, error: error.message });
+    }
+});
+
+app.post('/api/chat/sessions/:sessionId/test-cases', async (req, res) => {
+    try {
+        const session = chatSessions.getSession(req.params.sessionId);
+        if (!session) {
+            return res.status(404).json({ success: false, error: 'Chat session not found' });
+        }
+        
+        const { name, description, assertions = [], priority, tags } = req.body;
+        if (!name || typeof name !== 'string') {
+            return res.status(400).json({ success: false, error: 'Test case name is required' });
+        }
+        
+        const testCase = buildTestCaseFromChat(session.handler.getConversationHistory(), {
+            name: name,
+            description: description,
+            assertions: Array.isArray(assertions) ? assertions : [],
+            priority: priority,
+            tags: Array.isArray(tags) ? tags : undefined
+        });
+        await testStorage.saveTestCase(testCase);
+        
+        res.json({
+            success: true,
+            message: 'Chat session saved as test case',
+            testCase: testCase
+        });
+    } catch (error) {
+        console.error('Failed to save chat session as test case:', error);
+        res.status(400).json({ success: false, error: error.message });
+    }
+});
+
 // LLM Response Debugging Endpoints
-app.get('/api/debug/llm-responses', (req, res) => {
+// LLM calls of the latest stored learning run (or ?learningRunId=)
+app.get('/api/debug/llm-responses', async (req, res) => {
     try {
-        const responses = (global as any).llmResponses || [];
-        const lastResponse = (global as any).lastLLMResponse || null;
+        const learningRun = await findLearningRunForDebug(req.query.learningRunId);
+        const responses = learningRun?.llmCalls || [];
+        const lastResponse = responses.length > 0 ? responses[responses.length - 1] : null;
         
         res.json({
             success: true,
@@ -611,9 +1066,10 @@ app.get('/api/debug/llm-responses', (req, res) => {
     }
 });
 
-app.get('/api/debug/llm-response', (req, res) => {
+app.get('/api/debug/llm-response', async (req, res) => {
     try {
-        const lastResponse = (global as any).lastLLMResponse || null;
+        const learningRun = await findLearningRunForDebug(req.query.learningRunId);
+        const lastResponse = learningRun && learningRun.llmCalls.length > 0 ? learningRun.llmCalls[learningRun.llmCalls.length - 1] : null;
         
         res.json({
             success: true,
@@ -627,13 +1083,19 @@ app.get('/api/debug/llm-response', (req, res) => {
     }
 });
 
+function findLearningRunForDebug(learningRunId: any) {
+    return typeof learningRunId === 'string'
+        ? testStorage.getLearningRun(learningRunId)
+        : testStorage.getLatestLearningRun();
+}
+
 // Test LLM connectivity
 app.get('/api/debug/test-llm', async (req, res) => {
     try {
         console.log('Testing LLM connectivity...');
         
         const testPrompt = "Hello, please respond with 'LLM is working' and nothing else.";
-        const response = await bedrockClient.generateResponse([{ role: 'user', content: testPrompt }], []);
+        const response = await llmProvider.generateResponse([{ role: 'user', content: testPrompt }], []);
         
         console.log('LLM Test Response:', response);
         
@@ -655,11 +1117,43 @@ app.get('/api/debug/test-llm', async (req, res) => {
 
 // Socket.IO connection handling
 io.on('connection', (socket) => {
-  logger.info('Client connected');
+  // Clients pass the session id they were given to resume their conversation after a reconnect
+  const requestedId = socket.handshake.auth?.sessionId;
+  const { session, resumed } = chatSessions.connect(
+    typeof requestedId === 'string' && /^[\w-]{1,100}$/.test(requestedId) ? requestedId : undefined
+  );
+  const room = `chat-session:${session.id}`;
+  socket.join(room);
+  logger.info(`Client connected to chat session ${session.id}${resumed ? ' (resumed)' : ''}`);
+
+  socket.emit('session', { sessionId: session.id, resumed: resumed });
+  if (resumed && session.handler.getConversationHistory().length > 0) {
+    socket.emit('history', session.handler.getConversationHistory());
+  }
+
+  // Streams reply text and per-tool progress back to the requesting client
+  const streamListener: ChatStreamListener = {
+    onText: (delta) => socket.emit('response-token', { text: delta }),
+    onToolStart: (toolCall) => socket.emit('tool-start', {
+      id: toolCall.id,
+      name: toolCall.name,
+      parameters: toolCall.parameters
+    }),
+    onToolEnd: (toolCall, result, duration) => socket.emit('tool-end', {
+      id: toolCall.id,
+      name: toolCall.name,
+      parameters: toolCall.parameters,
+      duration: duration,
+      success: result.success,
+      error: result.error,
+      errorType: result.errorType
+    })
+  };
 
   socket.on('message', async (data) => {
     try {
-      const response = await messageHandler.processMessage(data.message);
+      chatSessions.touch(session.id);
+      const response = await session.handler.processMessage(data.message, streamListener);
       socket.emit('response', { message: response });
     } catch (error) {
       logger.error('Error handling message:', error);
@@ -667,18 +1161,52 @@ io.on('connection', (socket) => {
     }
   });
 
+  // data: { planId, steps? } - steps replaces the proposed plan when the user edited it
+  socket.on('plan-confirm', async (data) => {
+    try {
+      chatSessions.touch(session.id);
+      const response = await session.handler.confirmPlan(data.planId, data.steps, streamListener);
+      socket.emit('response', { message: response });
+    } catch (error) {
+      logger.error('Error executing plan:', error);
+      socket.emit('error', { message: error.message || 'Failed to execute plan' });
+    }
+  });
+
+  socket.on('plan-cancel', (data) => {
+    const response = session.handler.cancelPlan(data.planId);
+    socket.emit('response', { message: response });
+  });
+
   socket.on('clear-history', async () => {
     try {
-      messageHandler.clearHistory();
-      socket.emit('history-cleared');
+      session.handler.clearHistory();
+      io.to(room).emit('history-cleared');
     } catch (error) {
       logger.error('Error clearing history:', error);
       socket.emit('error', { message: 'Failed to clear history' });
     }
   });
 
+  // Learning progress: the client joins a job's room and gets its trace so far, then live updates
+  socket.on('learning-subscribe', (data) => {
+    const job = learningJobs.getJob(data?.jobId);
+    if (!job) {
+      socket.emit('error', { message: `Learning job ${data?.jobId} not found` });
+      return;
+    }
+    socket.join(`learning-job:${job.id}`);
+    socket.emit('learning-job', summarizeLearningJob(job));
+    socket.emit('learning-trace', { jobId: job.id, entries: job.trace });
+  });
+
+  socket.on('learning-unsubscribe', (data) => {
+    socket.leave(`learning-job:${data?.jobId}`);
+  });
+
   socket.on('disconnect', () => {
-    logger.info('Client disconnected');
+    chatSessions.disconnect(session.id);
+    logger.info(`Client disconnected from chat session ${session.id}`);
   });
 });
 
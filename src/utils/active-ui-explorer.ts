@@ -1,7 +1,8 @@
 import { MCPPlaywrightClient } from '../chatbot/mcp-client';
 import { UIStateCapturer, UIState, StateChanges } from './ui-state-capturer';
 import { VectorRAGClient } from './vector-rag-client';
-import { BedrockClient } from '../chatbot/bedrock-client';
+import { LLMProvider } from '../chatbot/llm-provider';
+import { withTimeout } from './with-timeout';
 
 export interface UIExplorationResult {
     elementType: string;
@@ -56,7 +57,7 @@ export class ActiveUIExplorer {
         private mcpClient: MCPPlaywrightClient,
         private stateCapturer: UIStateCapturer,
         private vectorRAG: VectorRAGClient,
-        private bedrockClient: BedrockClient
+        private bedrockClient: LLMProvider
     ) {}
 
     async exploreAllElements(): Promise<UIExplorationResult[]> {
@@ -172,12 +173,7 @@ export class ActiveUIExplorer {
             for (const searchBox of searchBoxes) {
                 try {
                     console.log(`🔍 Exploring search box: ${searchBox.label}`);
-                    const searchResult = await Promise.race([
-                        this.exploreSearchBox(searchBox),
-                        new Promise<UIExplorationResult>((_, reject) => 
-                            setTimeout(() => reject(new Error('timeout')), 30000)
-                        )
-                    ]);
+                    const searchResult = await withTimeout(this.exploreSearchBox(searchBox), 30000, 'timeout');
                     
                     // Update existing result
                     const existingIndex = results.findIndex(r => r.label === searchBox.label && r.elementType === 'searchBox');
@@ -260,12 +256,7 @@ export class ActiveUIExplorer {
         for (const dropdown of dropdowns) {
             try {
                 // Just get options, don't test yet - with timeout to prevent blocking
-                const options = await Promise.race([
-                    this.getDropdownOptions(dropdown.selector),
-                    new Promise<string[]>((_, reject) => 
-                        setTimeout(() => reject(new Error('timeout')), 10000) // 10 second timeout per dropdown
-                    )
-                ]);
+                const options = await withTimeout(this.getDropdownOptions(dropdown.selector), 10000, 'timeout'); // 10 second timeout per dropdown
                 results.push({
                     ...dropdown,
                     allOptions: options,
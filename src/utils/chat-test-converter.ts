@@ -0,0 +1,125 @@
+// src/utils/chat-test-converter.ts
+// Turns the successful browser actions of a chat session into a replayable TestCase
+
+import { ChatMessage, ToolCall } from '../chatbot/types';
+import { TestCase, TestStep } from '../models';
+
+export interface ChatTestDraft {
+  websiteUrl?: string;
+  steps: TestStep[];
+  selectors: string[];
+  // Candidate expected results for the user to confirm or edit before saving
+  suggestedAssertions: string[];
+}
+
+export interface ChatTestOptions {
+  name: string;
+  description?: string;
+  assertions: string[];
+  priority?: TestCase['priority'];
+  tags?: string[];
+}
+
+export function draftTestFromChat(history: ChatMessage[]): ChatTestDraft {
+  const steps: TestStep[] = [];
+  let websiteUrl: string | undefined;
+
+  for (const message of history) {
+    for (const toolCall of message.toolCalls || []) {
+      const result = message.toolResults?.find(r => r.callId === toolCall.id);
+      if (!result || !result.success) continue;
+
+      const step = toStep(toolCall);
+      if (!step) continue;
+
+      // The first page visited becomes the test's starting URL
+      if (step.action === 'navigate' && !websiteUrl && steps.length === 0) {
+        websiteUrl = step.url;
+      } else {
+        steps.push(step);
+      }
+    }
+  }
+
+  return {
+    websiteUrl,
+    steps,
+    selectors: [...new Set(steps.filter(step => step.selector).map(step => step.selector!))],
+    suggestedAssertions: suggestAssertions(history)
+  };
+}
+
+export function buildTestCaseFromChat(history: ChatMessage[], options: ChatTestOptions): TestCase {
+  const draft = draftTestFromChat(history);
+  if (draft.steps.length === 0 && !draft.websiteUrl) {
+    throw new Error('No successful browser actions in this chat session to save as a test.');
+  }
+
+  const assertions = options.assertions.map(assertion => assertion.trim()).filter(Boolean);
+  const steps: TestStep[] = [...draft.steps];
+  let expectedCount: number | undefined;
+
+  // "Result count equals N" is checkable by the execution engine; other assertions are documentation
+  for (const assertion of assertions) {
+    const countMatch = assertion.match(/^Result count equals (\d+)$/i);
+    if (countMatch) {
+      expectedCount = parseInt(countMatch[1]);
+      steps.push({ action: 'validate', expectedCount, description: `Validate result count matches expected ${expectedCount}` });
+    }
+  }
+
+  const now = new Date();
+  return {
+    id: `test-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    name: options.name,
+    description: options.description || `Recorded from chat: ${options.name}`,
+    category: 'functionality',
+    priority: options.priority || 'medium',
+    status: 'ready',
+    steps,
+    selectors: draft.selectors,
+    testData: {},
+    expectedResults: assertions,
+    websiteUrl: draft.websiteUrl,
+    expectedCount,
+    createdAt: now,
+    updatedAt: now,
+    tags: ['chat-recorded', ...(options.tags || [])]
+  };
+}
+
+function toStep(toolCall: ToolCall): TestStep | null {
+  const params = toolCall.parameters || {};
+
+  switch (toolCall.name) {
+    case 'playwright_navigate':
+      return { action: 'navigate', url: params.url, description: `Navigate to ${params.url}` };
+    case 'playwright_click':
+      return { action: 'click', selector: params.selector, description: `Click on ${params.selector}` };
+    case 'playwright_fill':
+      return { action: 'fill', selector: params.selector, value: params.value, description: `Fill ${params.selector} with "${params.value}"` };
+    case 'playwright_select':
+      return { action: 'select', selector: params.selector, value: params.value, description: `Select value "${params.value}"` };
+    case 'playwright_press_key':
+      return { action: 'press', selector: params.selector, value: params.key, description: `Press ${params.key}` };
+    default:
+      // Screenshots, text extraction and other observations are not replayed
+      return null;
+  }
+}
+
+// Pulls checkable facts out of the assistant's replies, e.g. "42 results"
+function suggestAssertions(history: ChatMessage[]): string[] {
+  const suggestions: string[] = [];
+
+  for (const message of history) {
+    if (message.role !== 'assistant' || typeof message.content !== 'string') continue;
+
+    const countMatch = message.content.match(/\b(\d+)\s+(?:results?|rows?|records?|items?)\b/i);
+    if (countMatch) {
+      suggestions.push(`Result count equals ${countMatch[1]}`);
+    }
+  }
+
+  return [...new Set(suggestions)].slice(-3);
+}
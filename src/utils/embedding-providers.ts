@@ -0,0 +1,123 @@
+// src/utils/embedding-providers.ts
+// Pluggable text embeddings for VectorRAGClient - Bedrock Titan and an offline hashed n-gram embedder
+
+import { LLMProvider } from '../chatbot/llm-provider';
+import { fnv1a } from './string-hash';
+
+export interface EmbeddingProvider {
+  readonly name: string;
+  readonly modelId: string;
+  // Known up front for local embedders; remote models report it with their first vector
+  readonly dimensions?: number;
+  // What actually computes the vectors when that can differ under one model id (bedrock, mock, ...)
+  readonly backend?: string;
+  embed(text: string): Promise<number[]>;
+}
+
+// Recorded in every vector index so vectors from different embedders are never compared
+export interface EmbeddingSignature {
+  provider: string;
+  modelId: string;
+  dimensions: number;
+  backend?: string;
+}
+
+export function isCompatibleEmbedding(signature: EmbeddingSignature, provider: EmbeddingProvider): boolean {
+  return signature.provider === provider.name &&
+    signature.modelId === provider.modelId &&
+    (signature.backend || '') === (provider.backend || '') &&
+    (provider.dimensions === undefined || signature.dimensions === provider.dimensions);
+}
+
+export function describeEmbedding(signature: EmbeddingSignature): string {
+  return `${signature.provider}/${signature.modelId}${signature.backend ? ` via ${signature.backend}` : ''} (${signature.dimensions} dimensions)`;
+}
+
+const TITAN_MAX_CHARS = 8000;
+
+// Goes through the LLM provider so mock, cassette and abort handling apply to embeddings too
+export class TitanEmbeddingProvider implements EmbeddingProvider {
+  readonly name: string = 'titan';
+
+  constructor(private llmProvider: LLMProvider, readonly modelId: string) {}
+
+  // The mock provider answers Titan requests with hashed vectors, so an index records which provider served it.
+  // Cassettes and the abort wrapper carry their inner provider's name, which is the one that matters.
+  get backend(): string {
+    return this.llmProvider.name.split('+')[0];
+  }
+
+  async embed(text: string): Promise<number[]> {
+    if (text.length > TITAN_MAX_CHARS) {
+      console.log(`     ⚠️  Text truncated: ${text.length} → ${TITAN_MAX_CHARS} chars`);
+    }
+
+    const response = await this.llmProvider.invokeModel({
+      modelId: this.modelId,
+      contentType: 'application/json',
+      accept: 'application/json',
+      body: JSON.stringify({ inputText: text.substring(0, TITAN_MAX_CHARS) })
+    });
+
+    if (!response.embedding || !Array.isArray(response.embedding)) {
+      throw new Error('Invalid embedding response from Bedrock');
+    }
+    return response.embedding;
+  }
+}
+
+// Feature hashing of words, word bigrams and character trigrams with sublinear term frequency.
+// Needs no corpus statistics, so a vector never changes as the index grows and runs fully offline.
+export class HashedNGramEmbeddingProvider implements EmbeddingProvider {
+  readonly name: string = 'local';
+  readonly modelId: string = 'hashed-ngram-v1';
+
+  constructor(readonly dimensions: number = 512) {
+    if (!Number.isInteger(dimensions) || dimensions <= 0) {
+      throw new Error(`Invalid embedding dimensions "${dimensions}". Expected a positive integer.`);
+    }
+  }
+
+  async embed(text: string): Promise<number[]> {
+    const counts = new Map<string, number>();
+    const add = (feature: string, weight: number) => counts.set(feature, (counts.get(feature) || 0) + weight);
+
+    const words = text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+    words.forEach((word, index) => {
+      add(`w:${word}`, 1);
+      if (index > 0) {
+        add(`b:${words[index - 1]} ${word}`, 0.5);
+      }
+      const padded = `#${word}#`;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        add(`c:${padded.substring(i, i + 3)}`, 0.25);
+      }
+    });
+
+    const vector = new Array(this.dimensions).fill(0);
+    for (const [feature, count] of counts) {
+      const hash = fnv1a(feature);
+      // The sign bit spreads collisions so they cancel out instead of piling up
+      const sign = (hash & 0x80000000) ? -1 : 1;
+      vector[hash % this.dimensions] += sign * Math.log1p(count);
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)) || 1;
+    return vector.map(value => value / norm);
+  }
+}
+
+// EMBEDDING_PROVIDER=titan|local (default: titan), EMBEDDING_DIMENSIONS=<n> for local
+export function createEmbeddingProvider(llmProvider: LLMProvider): EmbeddingProvider {
+  const provider = (process.env.EMBEDDING_PROVIDER || 'titan').toLowerCase();
+
+  switch (provider) {
+    case 'titan':
+    case 'bedrock':
+      return new TitanEmbeddingProvider(llmProvider, process.env.BEDROCK_EMBEDDING_MODEL_ID!);
+    case 'local':
+      return new HashedNGramEmbeddingProvider(parseInt(process.env.EMBEDDING_DIMENSIONS || '512'));
+    default:
+      throw new Error(`Unknown EMBEDDING_PROVIDER "${provider}". Expected "titan" or "local".`);
+  }
+}
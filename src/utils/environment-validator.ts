@@ -1,3 +1,5 @@
+import { isOfflineProvider } from '../chatbot/llm-provider';
+
 export class EnvironmentValidator {
     private static REQUIRED_VARS = [
         'AWS_REGION',
@@ -11,9 +13,19 @@ export class EnvironmentValidator {
     static validate(): void {
         console.log('🔍 Validating environment configuration...');
         
+        // The mock provider and cassette replays need no AWS access, so nothing is required offline
+        if (isOfflineProvider()) {
+            console.log('✅ Environment validation skipped: offline LLM provider\n');
+            return;
+        }
+        
         const missing: string[] = [];
         
+        // The local embedder needs no embedding model
+        const localEmbeddings = (process.env.EMBEDDING_PROVIDER || '').toLowerCase() === 'local';
+        
         for (const varName of this.REQUIRED_VARS) {
+            if (varName === 'BEDROCK_EMBEDDING_MODEL_ID' && localEmbeddings) continue;
             if (!process.env[varName]) {
                 missing.push(varName);
             }
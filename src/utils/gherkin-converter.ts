@@ -0,0 +1,292 @@
+// src/utils/gherkin-converter.ts
+// Converts TestCases to and from Gherkin .feature files for QA analysts
+//
+// Step vocabulary (both directions):
+//   Given I am on "<url>"                 -> websiteUrl (first step) or navigate step
+//   When I click "<selector>"             -> click step
+//   When I select "<value>" in "<target>" -> select step (target is a selector or a UI label)
+//   When I fill "<selector>" with "<v>"   -> fill step
+//   When I press "<key>"                  -> press step
+//   Then results equal <n>                -> validate step with expectedCount
+//   Then results in "<table>" equal <n>   -> validate step against a chosen results table
+//   Then <anything else>                  -> expectedResults entry
+//   * <anything else>                     -> descriptive step
+// Scenario Outline + Examples (| value |) carries testValues; <value> stands for the first one.
+// @id: sits on the Scenario; other key:value tags may sit on either and the Scenario's win.
+// Tag values percent-encode whitespace, '%' and '@' so they survive the round trip.
+
+import { TestCase, TestStep } from '../models';
+import { ExportedFile } from './playwright-spec-exporter';
+
+const STEP_KEYWORDS = ['Given', 'When', 'Then', 'And', 'But', '*'];
+
+export function toFeature(testCase: TestCase): string {
+  const testValues = testCase.testValues || [];
+  const isOutline = testValues.length > 1;
+  const uiLabel = testCase.testData?.uiLabel || testCase.dataField;
+
+  const tags = [
+    `@priority:${testCase.priority}`,
+    `@category:${testCase.category}`,
+    ...(testCase.type ? [`@type:${testCase.type}`] : []),
+    ...(testCase.dataField ? [`@field:${tagValue(testCase.dataField)}`] : []),
+    ...testCase.tags.map(tag => `@${tagValue(tag)}`)
+  ];
+
+  const lines: string[] = [
+    tags.join(' '),
+    `Feature: ${testCase.name}`,
+    ...testCase.description.split('\n').map(line => `  ${line}`),
+    '',
+    `  @id:${tagValue(testCase.id)}`,
+    `  ${isOutline ? 'Scenario Outline' : 'Scenario'}: ${testCase.name}`
+  ];
+
+  let previousKeyword = '';
+  const addStep = (keyword: string, text: string) => {
+    const shown = keyword === previousKeyword && keyword !== '*' ? 'And' : keyword;
+    lines.push(`    ${shown} ${text}`);
+    previousKeyword = keyword;
+  };
+
+  if (testCase.websiteUrl) {
+    addStep('Given', `I am on "${testCase.websiteUrl}"`);
+  }
+
+  const countResults = new Set<string>();
+  for (const step of testCase.steps) {
+    if (typeof step === 'string') {
+      addStep('*', step);
+      continue;
+    }
+
+    switch (step.action) {
+      case 'navigate':
+        addStep('Given', `I am on "${step.url || step.value}"`);
+        break;
+      case 'click':
+        addStep('When', `I click "${step.selector}"`);
+        break;
+      case 'select': {
+        const value = isOutline && step.value === testValues[0] ? '<value>' : step.value;
+        addStep('When', `I select "${value}" in "${step.selector || uiLabel || 'filter'}"`);
+        break;
+      }
+      case 'fill':
+        addStep('When', `I fill "${step.selector}" with "${step.value}"`);
+        break;
+      case 'press':
+        addStep('When', `I press "${step.value}"${step.selector ? ` in "${step.selector}"` : ''}`);
+        break;
+      case 'validate': {
+        const expectedCount = step.expectedCount ?? testCase.expectedCount;
+        if (expectedCount !== undefined) {
+          addStep('Then', `results${step.selector ? ` in "${step.selector}"` : ''} equal ${expectedCount}`);
+          countResults.add(`Result count equals ${expectedCount}`);
+        }
+        break;
+      }
+    }
+  }
+
+  for (const expected of testCase.expectedResults) {
+    if (!countResults.has(expected)) {
+      addStep('Then', expected);
+    }
+  }
+
+  if (isOutline) {
+    lines.push('', '    Examples:', '      | value |');
+    testValues.forEach(value => lines.push(`      | ${value.replace(/\|/g, '\\|')} |`));
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+export function toFeatureFiles(testCases: TestCase[]): ExportedFile[] {
+  return testCases.map(testCase => ({
+    path: `${testCase.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').substring(0, 60) || 'test'}-${testCase.id}.feature`,
+    content: toFeature(testCase)
+  }));
+}
+
+// Parses one .feature file; each Scenario becomes a TestCase
+export function fromFeature(content: string): TestCase[] {
+  const lines = content.split(/\r?\n/);
+  const scenarios: ParsedScenario[] = [];
+
+  let featureTags: string[] = [];
+  let pendingTags: string[] = [];
+  let featureName = '';
+  const descriptionLines: string[] = [];
+  let current: ParsedScenario | null = null;
+  let inExamples = false;
+  let examplesHeader: string[] | null = null;
+
+  for (const rawLine of lines) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) continue;
+
+    if (line.startsWith('@')) {
+      pendingTags.push(...line.split(/\s+/).filter(tag => tag.startsWith('@')).map(tag => tag.substring(1)));
+      continue;
+    }
+
+    const header = line.match(/^(Feature|Scenario Outline|Scenario Template|Scenario|Example|Examples|Scenarios):\s*(.*)$/);
+    if (header) {
+      const [, keyword, title] = header;
+      if (keyword === 'Feature') {
+        featureName = title;
+        featureTags = pendingTags;
+      } else if (keyword === 'Examples' || keyword === 'Scenarios') {
+        inExamples = true;
+        examplesHeader = null;
+      } else {
+        current = { name: title, tags: pendingTags, steps: [], expectedResults: [], examples: [] };
+        scenarios.push(current);
+        inExamples = false;
+      }
+      pendingTags = [];
+      continue;
+    }
+
+    if (inExamples && current && line.startsWith('|')) {
+      const cells = splitRow(line);
+      if (!examplesHeader) {
+        examplesHeader = cells;
+      } else {
+        const column = Math.max(examplesHeader.indexOf('value'), 0);
+        current.examples.push(cells[column]);
+      }
+      continue;
+    }
+
+    const keyword = STEP_KEYWORDS.find(k => line.startsWith(`${k} `));
+    if (keyword && current) {
+      current.steps.push({ keyword, text: line.substring(keyword.length + 1).trim() });
+      continue;
+    }
+
+    if (!current && featureName) {
+      descriptionLines.push(line);
+    }
+  }
+
+  // A feature-level @id: names one case, so it only applies when the file has a single scenario
+  const sharedTags = scenarios.length === 1 ? featureTags : featureTags.filter(tag => !tag.startsWith('id:'));
+  const description = descriptionLines.join('\n').trim();
+  return scenarios.map(scenario => buildTestCase(scenario, sharedTags, featureName, description));
+}
+
+interface ParsedScenario {
+  name: string;
+  tags: string[];
+  steps: Array<{ keyword: string; text: string }>;
+  expectedResults: string[];
+  examples: string[];
+}
+
+function buildTestCase(scenario: ParsedScenario, featureTags: string[], featureName: string, description: string): TestCase {
+  const now = new Date();
+  const tagged = (prefix: string) => {
+    const tag = [...scenario.tags, ...featureTags].find(candidate => candidate.startsWith(`${prefix}:`));
+    return tag === undefined ? undefined : fromTagValue(tag.substring(prefix.length + 1));
+  };
+  const plainTags = [...new Set([...featureTags, ...scenario.tags])]
+    .filter(tag => !/^(id|priority|category|type|field):/.test(tag))
+    .map(fromTagValue);
+  const firstValue = scenario.examples[0];
+
+  const steps: Array<string | TestStep> = [];
+  const expectedResults: string[] = [];
+  const selectedValues: string[] = [];
+  let websiteUrl: string | undefined;
+  let expectedCount: number | undefined;
+  let dataField = tagged('field');
+  let uiLabel: string | undefined;
+  let lastKeyword = '';
+
+  for (const { keyword, text } of scenario.steps) {
+    const effective = keyword === 'And' || keyword === 'But' ? lastKeyword : keyword;
+    lastKeyword = effective;
+    const resolved = firstValue !== undefined ? text.replace(/<value>/g, firstValue) : text;
+
+    let match: RegExpMatchArray | null;
+    if ((match = resolved.match(/^I am on "(.*)"$/))) {
+      if (!websiteUrl && steps.length === 0) {
+        websiteUrl = match[1];
+      } else {
+        steps.push({ action: 'navigate', url: match[1], description: `Navigate to ${match[1]}` });
+      }
+    } else if ((match = resolved.match(/^I click "(.*)"$/))) {
+      steps.push({ action: 'click', selector: match[1], description: `Click on ${match[1]}` });
+    } else if ((match = resolved.match(/^I select "(.*)" in "(.*)"$/))) {
+      const [, value, target] = match;
+      selectedValues.push(value);
+      if (looksLikeSelector(target)) {
+        steps.push({ action: 'select', selector: target, value, description: `Select value "${value}"` });
+      } else {
+        uiLabel = target;
+        dataField = dataField || target;
+        steps.push({ action: 'select', value, description: `Select value "${value}"` });
+      }
+    } else if ((match = resolved.match(/^I fill "(.*)" with "(.*)"$/))) {
+      steps.push({ action: 'fill', selector: match[1], value: match[2], description: `Fill ${match[1]} with "${match[2]}"` });
+    } else if ((match = resolved.match(/^I press "(.*?)"(?: in "(.*)")?$/))) {
+      steps.push({ action: 'press', value: match[1], ...(match[2] ? { selector: match[2] } : {}), description: `Press ${match[1]}` });
+    } else if ((match = resolved.match(/^results?(?: in "(.*)")? (?:equal|equals|count is) (\d+)$/i))) {
+      expectedCount = parseInt(match[2]);
+      steps.push({ action: 'validate', expectedCount, ...(match[1] ? { selector: match[1] } : {}), description: `Validate result count matches expected ${expectedCount}` });
+      expectedResults.push(`Result count equals ${expectedCount}`);
+    } else if (effective === 'Then') {
+      expectedResults.push(resolved);
+    } else {
+      steps.push(resolved);
+    }
+  }
+
+  const selectors = steps
+    .filter((step): step is TestStep => typeof step !== 'string' && !!step.selector)
+    .map(step => step.selector!);
+
+  return {
+    id: tagged('id') || `test-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    name: scenario.name || featureName,
+    description: description || scenario.name || featureName,
+    category: (tagged('category') as TestCase['category']) || 'functionality',
+    priority: (tagged('priority') as TestCase['priority']) || 'medium',
+    status: 'ready',
+    steps,
+    selectors: [...new Set(selectors)],
+    testData: uiLabel ? { uiLabel } : {},
+    expectedResults,
+    dataField,
+    testValues: scenario.examples.length > 0 ? scenario.examples : (selectedValues.length > 0 ? selectedValues : undefined),
+    type: tagged('type'),
+    websiteUrl,
+    expectedCount,
+    createdAt: now,
+    updatedAt: now,
+    tags: plainTags
+  };
+}
+
+function looksLikeSelector(target: string): boolean {
+  return /^[#.\[]/.test(target) || /[>=\[\]:]/.test(target) || /^(select|input|button|div|span)\b/.test(target);
+}
+
+function splitRow(line: string): string[] {
+  return line
+    .replace(/^\|/, '')
+    .replace(/\|$/, '')
+    .split(/(?<!\\)\|/)
+    .map(cell => cell.trim().replace(/\\\|/g, '|'));
+}
+
+function tagValue(value: string): string {
+  return value.trim().replace(/[\s%@]/g, char => encodeURIComponent(char));
+}
+
+function fromTagValue(value: string): string {
+  return value.replace(/%([0-9a-f]{2})/gi, (_, hex) => String.fromCharCode(parseInt(hex, 16)));
+}
@@ -0,0 +1,218 @@
+// src/utils/learning-job-manager.ts
+// Runs website learning as background jobs: callers get a job id immediately, follow the trace and can cancel.
+// Every completed job is stored as a versioned LearningRun.
+
+import { createHash } from 'crypto';
+import { PlaywrightLearningOrchestrator } from './playwright-learning-orchestrator';
+import { TestStorage } from './storage';
+import { LearningRun } from '../models';
+
+export type LearningJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface LearningJob {
+  id: string;
+  websiteUrl: string;
+  tsvFileCount: number;
+  status: LearningJobStatus;
+  createdAt: Date;
+  startedAt?: Date;
+  finishedAt?: Date;
+  trace: any[];
+  learningResults?: any;
+  learningRunId?: string;
+  error?: string;
+}
+
+export interface LearningJobListener {
+  onStep?(job: LearningJob, traceEntry: any): void;
+  onStatus?(job: LearningJob): void;
+}
+
+interface QueuedJob {
+  job: LearningJob;
+  tsvFiles: any[];
+}
+
+const FINISHED_STATUSES: LearningJobStatus[] = ['completed', 'failed', 'cancelled'];
+
+// The orchestrator keeps per-run state, so jobs run one at a time in submission order
+export class LearningJobManager {
+  private jobs: Map<string, LearningJob> = new Map();
+  private queue: QueuedJob[] = [];
+  private controllers: Map<string, AbortController> = new Map();
+  private completionWaiters: Map<string, Array<(job: LearningJob) => void>> = new Map();
+  private running = false;
+
+  constructor(
+    private orchestrator: PlaywrightLearningOrchestrator,
+    private storage: TestStorage,
+    private listener: LearningJobListener = {},
+    private maxStoredJobs: number = 50
+  ) {}
+
+  start(websiteUrl: string, tsvFiles: any[]): LearningJob {
+    const job: LearningJob = {
+      id: `learn-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      websiteUrl,
+      tsvFileCount: tsvFiles.length,
+      status: 'queued',
+      createdAt: new Date(),
+      trace: []
+    };
+
+    this.jobs.set(job.id, job);
+    this.queue.push({ job, tsvFiles });
+    this.pruneFinishedJobs();
+    console.log(`🧠 Learning job queued: ${job.id} (${websiteUrl})`);
+    this.listener.onStatus?.(job);
+
+    this.runNext();
+    return job;
+  }
+
+  getJob(jobId: string): LearningJob | undefined {
+    return this.jobs.get(jobId);
+  }
+
+  listJobs(): LearningJob[] {
+    return Array.from(this.jobs.values()).sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  isFinished(job: LearningJob): boolean {
+    return FINISHED_STATUSES.includes(job.status);
+  }
+
+  // Queued jobs are dropped; a running job is aborted and settles as 'cancelled' once its work has stopped
+  cancel(jobId: string): LearningJob | undefined {
+    const job = this.jobs.get(jobId);
+    if (!job || this.isFinished(job)) {
+      return job;
+    }
+
+    if (job.status === 'queued') {
+      this.queue = this.queue.filter(queued => queued.job !== job);
+      this.finish(job, 'cancelled', undefined, 'Cancelled before it started');
+    } else {
+      console.log(`🛑 Cancelling learning job ${job.id}`);
+      this.controllers.get(job.id)?.abort(new Error('Learning job cancelled'));
+    }
+    return job;
+  }
+
+  waitForJob(jobId: string): Promise<LearningJob> {
+    const job = this.jobs.get(jobId);
+    if (!job) {
+      return Promise.reject(new Error(`Learning job ${jobId} not found`));
+    }
+    if (this.isFinished(job)) {
+      return Promise.resolve(job);
+    }
+
+    return new Promise(resolve => {
+      const waiters = this.completionWaiters.get(jobId) || [];
+      waiters.push(resolve);
+      this.completionWaiters.set(jobId, waiters);
+    });
+  }
+
+  private async runNext(): Promise<void> {
+    if (this.running) return;
+
+    const next = this.queue.shift();
+    if (!next) return;
+
+    const { job, tsvFiles } = next;
+    const controller = new AbortController();
+    this.running = true;
+    this.controllers.set(job.id, controller);
+    job.status = 'running';
+    job.startedAt = new Date();
+    console.log(`🧠 Learning job started: ${job.id}`);
+    this.listener.onStatus?.(job);
+
+    try {
+      const learningResults = await this.orchestrator.performCompleteLearning(job.websiteUrl, tsvFiles, {
+        signal: controller.signal,
+        onStep: traceEntry => {
+          job.trace.push(traceEntry);
+          this.listener.onStep?.(job, traceEntry);
+        }
+      });
+
+      if (controller.signal.aborted) {
+        this.finish(job, 'cancelled', undefined, learningResults?.error || 'Learning job cancelled');
+      } else if (learningResults?.success === false) {
+        this.finish(job, 'failed', undefined, learningResults.error);
+      } else {
+        const learningRun = await this.saveLearningRun(job, tsvFiles, learningResults);
+        job.learningRunId = learningRun.id;
+        this.finish(job, 'completed', learningResults);
+      }
+    } catch (error) {
+      console.error(`❌ Learning job ${job.id} failed:`, error);
+      this.finish(job, controller.signal.aborted ? 'cancelled' : 'failed', undefined, error.message);
+    } finally {
+      this.controllers.delete(job.id);
+      this.running = false;
+      this.runNext();
+    }
+  }
+
+  private finish(job: LearningJob, status: LearningJobStatus, learningResults?: any, error?: string): void {
+    job.status = status;
+    job.finishedAt = new Date();
+    job.learningResults = learningResults;
+    job.error = error;
+    console.log(`${status === 'completed' ? '✅' : '❌'} Learning job ${job.id} ${status}${error ? `: ${error}` : ''}`);
+    this.listener.onStatus?.(job);
+
+    for (const resolve of this.completionWaiters.get(job.id) || []) {
+      resolve(job);
+    }
+    this.completionWaiters.delete(job.id);
+  }
+
+  private async saveLearningRun(job: LearningJob, tsvFiles: any[], learningResults: any): Promise<LearningRun> {
+    const previousRuns = await this.storage.getAllLearningRuns(job.websiteUrl);
+    const { executionTrace, llmResponses, lastLLMResponse, screenshotAnalysis, ...results } = learningResults;
+
+    const learningRun: LearningRun = {
+      id: `learning-${new Date().toISOString().replace(/[:.]/g, '-')}`,
+      version: previousRuns.reduce((max, run) => Math.max(max, run.version), 0) + 1,
+      websiteUrl: job.websiteUrl,
+      tsvFingerprint: fingerprintTSVFiles(tsvFiles),
+      tsvFiles: tsvFiles.map(file => ({ name: file.name, size: (file.content || '').length })),
+      createdAt: new Date(),
+      jobId: job.id,
+      learningResults: results,
+      executionTrace: executionTrace || job.trace,
+      llmCalls: llmResponses || [],
+      screenshotAnalysis
+    };
+
+    await this.storage.saveLearningRun(learningRun);
+    console.log(`💾 Learning run ${learningRun.id} saved (v${learningRun.version} of ${job.websiteUrl})`);
+    return learningRun;
+  }
+
+  // Drops the oldest finished jobs once more than maxStoredJobs are kept
+  private pruneFinishedJobs(): void {
+    const excess = this.jobs.size - this.maxStoredJobs;
+    if (excess <= 0) return;
+
+    const oldestFinished = this.listJobs().filter(job => this.isFinished(job)).reverse();
+    for (const job of oldestFinished.slice(0, excess)) {
+      this.jobs.delete(job.id);
+    }
+  }
+}
+
+// Order-independent, so the same TSV set uploaded in a different order fingerprints the same
+export function fingerprintTSVFiles(tsvFiles: any[]): string {
+  const hash = createHash('sha256');
+  const files = [...tsvFiles].sort((a, b) => String(a.name).localeCompare(String(b.name)));
+  for (const file of files) {
+    hash.update(`${file.name}\0${file.content || ''}\0`);
+  }
+  return hash.digest('hex');
+}
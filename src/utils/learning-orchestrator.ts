@@ -1,10 +1,10 @@
-import { BedrockClient } from '../chatbot/bedrock-client';
+import { LLMProvider } from '../chatbot/llm-provider';
 import { FileProcessor } from './file-processor';
 
 export class LearningOrchestrator {
-    private bedrockClient: BedrockClient;
+    private bedrockClient: LLMProvider;
 
-    constructor(bedrockClient: BedrockClient) {
+    constructor(bedrockClient: LLMProvider) {
         this.bedrockClient = bedrockClient;
     }
 
@@ -1,18 +1,31 @@
-import { BedrockClient } from '../chatbot/bedrock-client';
+import { LLMProvider } from '../chatbot/llm-provider';
 import { MCPPlaywrightClient } from '../chatbot/mcp-client';
+import { MCPSessionPool, MCPSessionLease } from '../chatbot/mcp-session-pool';
+import { describeToolError } from '../chatbot/tool-errors';
 import { FileProcessor } from './file-processor';
 import { SimpleRAGClient } from './simple-rag-client';
-import { VectorRAGClient } from './vector-rag-client';
+import { VectorRAGClient, vectorIndexKeyFor } from './vector-rag-client';
+import { describeIndexKey } from './vector-store';
 import { EnvironmentValidator } from './environment-validator';
 import { UIStateCapturer } from './ui-state-capturer';
 import { ActiveUIExplorer } from './active-ui-explorer';
+import { AbortableLLMProvider } from '../chatbot/abortable-llm-provider';
 
 const fs = require('fs');
 
+export interface LearningRunOptions {
+    signal?: AbortSignal;                   // Aborting stops browser and LLM work for the run
+    onStep?: (traceEntry: any) => void;     // Called with every execution trace entry as it is logged
+}
+
 export class PlaywrightLearningOrchestrator {
-    private bedrockClient: BedrockClient;
-    private mcpClient: MCPPlaywrightClient;
-    private ragClient: SimpleRAGClient;
+    private bedrockClient: LLMProvider;
+    private abortableLLM: AbortableLLMProvider;
+    private onStep?: (traceEntry: any) => void;
+    private runSignal?: AbortSignal;
+    private sessionPool: MCPSessionPool;
+    private mcpClient: MCPPlaywrightClient; // Browser leased for the current learning run
+    private goldStandards: Map<string, SimpleRAGClient> = new Map(); // Raw TSV records per vector index key
     private vectorRAG: VectorRAGClient; // NEW
     private currentWebsiteUrl: string = '';
     private executionTrace: any[] = []; // Add this line
@@ -22,23 +35,53 @@ export class PlaywrightLearningOrchestrator {
 
     // Add global LLM tracking
     private llmCallTracker: any[] = [];
+    // Latest uploaded screenshot analysis, combined with the HTML analysis of the next runs
+    private screenshotAnalysis: any = null;
 
-    constructor(bedrockClient: BedrockClient, mcpClient: MCPPlaywrightClient) {
+    constructor(bedrockClient: LLMProvider, sessionPool: MCPSessionPool) {
         // Validate environment FIRST
         EnvironmentValidator.validate();
         
-        this.bedrockClient = bedrockClient;
-        this.mcpClient = mcpClient;
-        this.ragClient = new SimpleRAGClient(bedrockClient); // Add this line
-        this.vectorRAG = new VectorRAGClient(bedrockClient); // NEW
+        // Every LLM call of a run (RAG and exploration included) goes through the abortable wrapper
+        this.abortableLLM = new AbortableLLMProvider(bedrockClient);
+        this.bedrockClient = this.abortableLLM;
+        this.sessionPool = sessionPool;
+        this.vectorRAG = new VectorRAGClient(this.bedrockClient); // NEW
         this.executionTrace = []; // Initialize trace
         
         console.log('✅ Orchestrator initialized in PURE AI mode');
     }
 
-    // Expose RAG client for test orchestrator
-    getRagClient(): SimpleRAGClient {
-        return this.ragClient;
+    // TSV gold standard of the site a test case was learned on. Sites learned since startup are in memory;
+    // others are rebuilt from the TSV records in their vector index. Null when the site has no TSV data.
+    async getRagClientFor(websiteUrl: string): Promise<SimpleRAGClient | null> {
+        const indexKey = vectorIndexKeyFor(websiteUrl);
+        const cacheKey = describeIndexKey(indexKey);
+        let goldStandard = this.goldStandards.get(cacheKey);
+        
+        if (!goldStandard) {
+            const records = await this.vectorRAG.loadTSVRecords(indexKey);
+            if (records.length === 0) {
+                return null;
+            }
+            goldStandard = new SimpleRAGClient(this.bedrockClient);
+            goldStandard.storeRecords(records);
+            this.goldStandards.set(cacheKey, goldStandard);
+        }
+        return goldStandard;
+    }
+
+    // TSV files of the most recent learning run, so it can be repeated against another URL
+    getCurrentTSVFiles(): any[] {
+        return this.currentTSVFiles;
+    }
+
+    setScreenshotAnalysis(analysis: any): void {
+        this.screenshotAnalysis = analysis;
+    }
+
+    getScreenshotAnalysis(): any {
+        return this.screenshotAnalysis;
     }
 
     // Add this method to log each step
@@ -56,37 +99,62 @@ export class PlaywrightLearningOrchestrator {
         
         this.executionTrace.push(traceEntry);
         console.log(`🔍 [${actor}] ${action}:`, traceEntry);
-        
-        // Store in global for frontend access
-        if (typeof (global as any) !== 'undefined') {
-            (global as any).executionTrace = this.executionTrace;
-        }
+        this.onStep?.(traceEntry);
+
+        // Every step is a cancellation point, so a cancelled run unwinds even where a catch swallowed the abort
+        this.runSignal?.throwIfAborted();
     }
 
-    async performCompleteLearning(websiteUrl: string, tsvFiles: any[]): Promise<any> {
+    // One run at a time: the trace, TSV data and leased browser are instance state
+    async performCompleteLearning(websiteUrl: string, tsvFiles: any[], options: LearningRunOptions = {}): Promise<any> {
         const startTime = Date.now(); // ✅ This should be here
         this.executionTrace = []; // Reset trace
-        
-        // Add timeout wrapper
-        const timeoutPromise = new Promise((_, reject) => {
-            setTimeout(() => reject(new Error('Learning process timeout after 600 seconds')), this.timeout);
-        });
-        
-        const learningPromise = this.performLearning(websiteUrl, tsvFiles);
-        
+        this.llmCallTracker = []; // Each run's result carries only its own LLM calls
+        this.onStep = options.onStep;
+
+        // The timeout aborts the same controller as a cancel, so the exploration really stops
+        const controller = new AbortController();
+        const timeoutTimer = setTimeout(() => controller.abort(new Error('Learning process timeout after 600 seconds')), this.timeout);
+        const onCancel = () => controller.abort(options.signal?.reason instanceof Error ? options.signal.reason : new Error('Learning cancelled'));
+        if (options.signal?.aborted) onCancel();
+        options.signal?.addEventListener('abort', onCancel, { once: true });
+
+        let lease: MCPSessionLease | undefined;
         try {
-            return await Promise.race([learningPromise, timeoutPromise]);
+            lease = await this.sessionPool.lease('learning', { signal: controller.signal });
+            this.mcpClient = lease.client;
+            lease.client.setAbortSignal(controller.signal);
+            this.abortableLLM.setSignal(controller.signal);
+            this.runSignal = controller.signal;
+
+            // Awaited even once aborted: the next run reuses this orchestrator's state, so it may only start after this one has stopped
+            const result = await this.performLearning(websiteUrl, tsvFiles);
+            // performLearning reports its own failures; an abort surfacing as one of them still counts as an abort
+            if (controller.signal.aborted) {
+                throw controller.signal.reason;
+            }
+            return result;
         } catch (error) {
-            this.logStep('ERROR', 'System', 'Learning Process Timeout', 
+            this.runSignal = undefined;
+            this.logStep('ERROR', 'System', controller.signal.aborted ? 'Learning Process Aborted' : 'Learning Process Failed',
                 { error: error.message }, 
-                'Process terminated due to timeout');
+                'Process terminated');
             
             return { 
                 success: false, 
                 error: error.message,
                 results: { uiElements: 0, dbFields: 0, testCases: 0, relationships: 0 },
-                executionTrace: this.executionTrace
+                executionTrace: this.executionTrace,
+                aborted: controller.signal.aborted
             };
+        } finally {
+            this.runSignal = undefined;
+            lease?.client.setAbortSignal(null);
+            this.abortableLLM.clearSignal(controller.signal);
+            lease?.release();
+            clearTimeout(timeoutTimer);
+            options.signal?.removeEventListener('abort', onCancel);
+            this.onStep = undefined;
         }
     }
 
@@ -119,23 +187,17 @@ export class PlaywrightLearningOrchestrator {
                 this.logStep('2', 'Playwright', 'Navigate to Website', { url: websiteUrl }, 'Attempting navigation...');
                 
                 const navigateStart = Date.now();
-                const navigatePromise = this.mcpClient.callTools([{
+                const navigateResult = await this.mcpClient.callTools([{
                     id: 'navigate-1',
                     name: 'playwright_navigate',
                     parameters: { url: websiteUrl }
-                }]);
-
-                const navigateTimeout = new Promise((_, reject) => 
-                    setTimeout(() => reject(new Error('Playwright navigation timeout after 10 seconds')), 10000)
-                );
-
-                const navigateResult = await Promise.race([navigatePromise, navigateTimeout]);
+                }], { timeout: 10000 });
                 const navigateDuration = Date.now() - navigateStart;
                 
                 this.logStep('3', 'Playwright', 'Navigation Result', { url: websiteUrl }, navigateResult, navigateDuration);
                 
                 if (!navigateResult[0]?.success) {
-                    throw new Error('Navigation failed');
+                    throw new Error(navigateResult[0] ? describeToolError(navigateResult[0]) : 'Navigation failed');
                 }
                 
                 // Extract HTML content - Wait for dynamic React components to load
@@ -247,7 +309,7 @@ export class PlaywrightLearningOrchestrator {
                 'Analyzing UI elements...');
             
             // Check if there's existing screenshot analysis to use
-            const existingScreenshotAnalysis = (global as any).screenshotAnalysis;
+            const existingScreenshotAnalysis = this.screenshotAnalysis;
             if (existingScreenshotAnalysis) {
                 console.log('📸 Using existing screenshot analysis for hybrid approach');
                 console.log('📸 Screenshot analysis elements:', existingScreenshotAnalysis.totalElements || 0);
@@ -272,8 +334,16 @@ export class PlaywrightLearningOrchestrator {
 
             try {
                 console.log('🔍 DEBUG: Starting TSV indexing with', tsvFiles.length, 'files');
+                const indexKey = vectorIndexKeyFor(websiteUrl);
+                await this.vectorRAG.useIndex(indexKey.project, indexKey.dataset);
                 await this.vectorRAG.indexTSVData(tsvFiles);
+                await this.vectorRAG.beginLearningRun();
                 console.log('✅ DEBUG: TSV indexing completed successfully');
+                
+                // Keep the raw records for gold-standard validation when this site's test cases run
+                const goldStandard = new SimpleRAGClient(this.bedrockClient);
+                await goldStandard.storeTSVData(tsvFiles);
+                this.goldStandards.set(describeIndexKey(indexKey), goldStandard);
             } catch (error: any) {
                 console.error('❌ RAG indexing failed:', error);
                 console.error('Stack trace:', error.stack);
@@ -296,7 +366,7 @@ export class PlaywrightLearningOrchestrator {
 
             this.logStep('16', 'RAG', 'Vector Store Complete',
                 { embeddings: 'completed' },
-                'Vector embeddings created and saved to S3');
+                'Vector embeddings created and saved to the vector store');
             
             this.logStep('14', 'LLM', 'RAG Mapping Analysis', 
                 { uiElements: uiAnalysis.totalElements, dbFields: dbAnalysis.totalFields }, 
@@ -356,10 +426,6 @@ export class PlaywrightLearningOrchestrator {
 
             console.log('🔍 DEBUG - DB Fields:', dbAnalysis.totalFields);
 
-            // Store LLM responses globally for API access
-            (global as any).llmResponses = this.llmCallTracker;
-            (global as any).lastLLMResponse = this.llmCallTracker.length > 0 ? this.llmCallTracker[this.llmCallTracker.length - 1] : null;
-
             return {
                 success: true,
                 results: {
@@ -378,7 +444,8 @@ export class PlaywrightLearningOrchestrator {
                 },
                 executionTrace: this.executionTrace,
                 llmResponses: this.llmCallTracker,
-                lastLLMResponse: this.llmCallTracker.length > 0 ? this.llmCallTracker[this.llmCallTracker.length - 1] : null
+                lastLLMResponse: this.llmCallTracker.length > 0 ? this.llmCallTracker[this.llmCallTracker.length - 1] : null,
+                screenshotAnalysis: existingScreenshotAnalysis || undefined
             };
             
         } catch (error) {
@@ -2052,9 +2119,7 @@ Return JSON:
             
             // Step 4: Store mappings back in RAG
             if (result.mappings) {
-                for (const mapping of result.mappings) {
-                    await this.vectorRAG.storeMappingResult(mapping);
-                }
+                await this.vectorRAG.storeMappingResults(result.mappings);
             }
             
             this.storeLLMResponse('RAG-Powered Mapping', prompt, result, result);
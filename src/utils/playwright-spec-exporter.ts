@@ -0,0 +1,183 @@
+// src/utils/playwright-spec-exporter.ts
+// Converts stored TestCases into standalone @playwright/test spec files
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { TestCase, TestStep } from '../models';
+import { createZipArchive } from './zip-archive';
+import { resultRowsSelector } from './results-table';
+
+const PLAYWRIGHT_TEST_VERSION = '^1.55.0';
+
+export interface ExportedFile {
+  path: string;
+  content: string;
+}
+
+export class PlaywrightSpecExporter {
+  constructor(private exportsDir: string) {}
+
+  // Writes a runnable project directory and returns its files; the bundle name identifies it for downloadZip
+  async exportProject(testCases: TestCase[]): Promise<{ bundle: string; directory: string; files: ExportedFile[] }> {
+    const bundle = `playwright-${new Date().toISOString().replace(/[:.]/g, '-')}`;
+    const directory = path.join(this.exportsDir, bundle);
+
+    const files: ExportedFile[] = [
+      { path: 'package.json', content: this.renderPackageJson(bundle) },
+      { path: 'playwright.config.ts', content: this.renderConfig() },
+      ...testCases.map(testCase => ({
+        path: path.join('tests', `${this.slugify(testCase.name)}-${this.slugify(testCase.id)}.spec.ts`),
+        content: this.toSpec(testCase)
+      }))
+    ];
+
+    for (const file of files) {
+      const filePath = path.join(directory, file.path);
+      await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.promises.writeFile(filePath, file.content);
+    }
+
+    console.log(`📦 Exported ${testCases.length} Playwright specs to ${directory}`);
+    return { bundle, directory, files };
+  }
+
+  // The exported project as a ZIP, or null when no such bundle exists
+  async zipBundle(bundle: string): Promise<Buffer | null> {
+    // Only names produced by exportProject, so a request can never reach outside the exports directory
+    if (!/^playwright-[0-9TZ-]+$/.test(bundle)) {
+      return null;
+    }
+
+    const directory = path.join(this.exportsDir, bundle);
+    if (!fs.existsSync(directory)) {
+      return null;
+    }
+
+    const files = await this.readFiles(directory, '');
+    return createZipArchive(files.map(file => ({ path: path.posix.join(bundle, file.path), content: file.content })));
+  }
+
+  private async readFiles(root: string, relative: string): Promise<ExportedFile[]> {
+    const files: ExportedFile[] = [];
+    for (const entry of await fs.promises.readdir(path.join(root, relative), { withFileTypes: true })) {
+      const entryPath = relative ? path.posix.join(relative, entry.name) : entry.name;
+      if (entry.isDirectory()) {
+        files.push(...await this.readFiles(root, entryPath));
+      } else {
+        files.push({ path: entryPath, content: await fs.promises.readFile(path.join(root, entryPath), 'utf8') });
+      }
+    }
+    return files;
+  }
+
+  toSpec(testCase: TestCase): string {
+    const lines: string[] = [];
+
+    for (const step of testCase.steps) {
+      if (typeof step === 'string') {
+        lines.push(`  // ${step.replace(/\n/g, ' ')}`);
+      }
+    }
+
+    const steps = this.executableSteps(testCase);
+    const body = steps.map(step => [
+      `  await test.step(${literal(step.description)}, async () => {`,
+      ...this.renderStep(step, testCase).map(line => `    ${line}`),
+      '  });'
+    ].join('\n'));
+
+    return `// Generated by UniversalTestAgent from test case ${testCase.id}
+// ${testCase.description.replace(/\n/g, ' ')}
+import { test, expect } from '@playwright/test';
+
+test(${literal(testCase.name)}, async ({ page }) => {
+${testCase.websiteUrl ? `  await page.goto(${literal(testCase.websiteUrl)});\n` : ''}${lines.length > 0 ? lines.join('\n') + '\n' : ''}${body.join('\n\n')}
+});
+`;
+  }
+
+  // Stored steps when generation produced them, otherwise derived from selectors/testValues
+  private executableSteps(testCase: TestCase): TestStep[] {
+    const steps = testCase.steps.filter((step): step is TestStep => typeof step !== 'string');
+    if (steps.length > 0 || !testCase.selectors?.[0] || !testCase.testValues?.length) {
+      return steps;
+    }
+
+    const value = testCase.testValues[0];
+    const derived: TestStep[] = [
+      { action: 'click', selector: testCase.selectors[0], description: `Open ${testCase.dataField || 'filter'}` },
+      { action: 'select', value, description: `Select value "${value}"` }
+    ];
+    if (testCase.expectedCount !== undefined) {
+      derived.push({ action: 'validate', expectedCount: testCase.expectedCount, description: `Validate result count matches expected ${testCase.expectedCount}` });
+    }
+    return derived;
+  }
+
+  private renderStep(step: TestStep, testCase: TestCase): string[] {
+    switch (step.action) {
+      case 'navigate':
+        return [`await page.goto(${literal(step.url || step.value || '')});`];
+      case 'click':
+        return [`await page.locator(${literal(step.selector || '')}).first().click();`];
+      case 'select':
+        return step.selector
+          ? [`await page.selectOption(${literal(step.selector)}, ${literal(step.value || '')});`]
+          : [`await page.getByText(${literal(step.value || '')}, { exact: true }).first().click();`];
+      case 'fill':
+        return [`await page.locator(${literal(step.selector || '')}).fill(${literal(step.value || '')});`];
+      case 'press':
+        return step.selector
+          ? [`await page.locator(${literal(step.selector)}).press(${literal(step.value || '')});`]
+          : [`await page.keyboard.press(${literal(step.value || '')});`];
+      case 'validate': {
+        const expectedCount = step.expectedCount ?? testCase.expectedCount;
+        if (expectedCount === undefined) {
+          return ['// No expected count recorded for this step'];
+        }
+        return [`await expect(page.locator(${literal(resultRowsSelector(step.selector))})).toHaveCount(${expectedCount});`];
+      }
+      default: {
+        const action: never = step.action;
+        return [`// Unsupported action: ${action}`];
+      }
+    }
+  }
+
+  // npm install && npx playwright install && npm test
+  private renderPackageJson(bundle: string): string {
+    return JSON.stringify({
+      name: bundle,
+      private: true,
+      scripts: {
+        test: 'playwright test',
+        'install-browsers': 'playwright install chromium'
+      },
+      devDependencies: {
+        '@playwright/test': PLAYWRIGHT_TEST_VERSION
+      }
+    }, null, 2) + '\n';
+  }
+
+  private renderConfig(): string {
+    return `import { defineConfig } from '@playwright/test';
+
+export default defineConfig({
+  testDir: './tests',
+  timeout: 60000,
+  use: {
+    headless: true,
+    screenshot: 'only-on-failure'
+  }
+});
+`;
+  }
+
+  private slugify(value: string): string {
+    return value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').substring(0, 60) || 'test';
+  }
+}
+
+function literal(value: string): string {
+  return JSON.stringify(value);
+}
@@ -0,0 +1,8 @@
+// src/utils/results-table.ts
+// Which rows a validate step counts. The execution engine and exported Playwright specs share this rule,
+// so an expected count means the same thing in either place.
+
+// A validate step's selector names the results table; without one the page's tables are counted
+export function resultRowsSelector(tableSelector?: string): string {
+  return `${tableSelector || 'table'} tbody tr`;
+}
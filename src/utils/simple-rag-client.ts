@@ -1,12 +1,12 @@
-import { BedrockClient } from '../chatbot/bedrock-client';
+import { LLMProvider } from '../chatbot/llm-provider';
 
 export class SimpleRAGClient {
-    private bedrockClient: BedrockClient;
+    private bedrockClient: LLMProvider;
     private tsvData: any[] = [];
     private fieldNames: string[] = [];
     private fieldIndexes: Map<string, Map<any, any[]>> = new Map();
 
-    constructor(bedrockClient: BedrockClient) {
+    constructor(bedrockClient: LLMProvider) {
         this.bedrockClient = bedrockClient;
     }
 
@@ -14,9 +14,7 @@ export class SimpleRAGClient {
     async storeTSVData(tsvFiles: any[]): Promise<void> {
         console.log('📚 Storing TSV data for RAG...');
         
-        this.tsvData = [];
-        this.fieldNames = [];
-        
+        const records: any[] = [];
         tsvFiles.forEach(file => {
             if (file.content) {
                 const lines = file.content.split('\n').filter(line => line.trim());
@@ -31,14 +29,19 @@ export class SimpleRAGClient {
                         return row;
                     });
                     
-                    this.tsvData.push(...rows);
-                    this.fieldNames.push(...headers.map(h => h.trim()));
+                    records.push(...rows);
                 }
             }
         });
         
-        // Remove duplicate field names
-        this.fieldNames = [...new Set(this.fieldNames)];
+        this.storeRecords(records);
+    }
+
+    // Records already parsed elsewhere (e.g. the TSV chunks of a site's vector index)
+    storeRecords(records: any[]): void {
+        this.tsvData = records;
+        this.fieldNames = [...new Set(records.flatMap(record => Object.keys(record)))];
+        this.fieldIndexes = new Map();
         
         console.log(`✅ Stored ${this.tsvData.length} records with ${this.fieldNames.length} unique fields`);
         
@@ -66,6 +69,14 @@ export class SimpleRAGClient {
         });
     }
 
+    hasData(): boolean {
+        return this.tsvData.length > 0;
+    }
+
+    getFieldNames(): string[] {
+        return this.fieldNames;
+    }
+
     // Fast query by field for validation
     async queryByField(field: string, value: any): Promise<any[]> {
         const index = this.fieldIndexes.get(field);
@@ -0,0 +1,261 @@
+// src/utils/site-drift-detector.ts
+// Compares two stored learning runs to show how the site's UI and UI→TSV mappings drifted between them
+
+import { LearningRun } from '../models';
+import { escapeHtml } from './test-report-writer';
+
+export interface UIElementSnapshot {
+  kind: string;
+  label: string;
+  selector: string;
+  options: string[];
+}
+
+export interface MappingSnapshot {
+  dbField: string;
+  uiElement: string;
+  type: string;
+  selector: string;
+}
+
+export interface SiteDriftReport {
+  baseRunId: string;
+  targetRunId: string;
+  baseVersion: number;
+  targetVersion: number;
+  websiteUrl: string;
+  generatedAt: string;
+  tsvChanged: boolean;
+  elements: {
+    added: UIElementSnapshot[];
+    removed: UIElementSnapshot[];
+    renamed: Array<{ kind: string; from: string; to: string; selector: string }>;
+    selectorChanged: Array<{ kind: string; label: string; from: string; to: string }>;
+    optionsChanged: Array<{ kind: string; label: string; added: string[]; removed: string[] }>;
+  };
+  mappings: {
+    added: MappingSnapshot[];
+    removed: MappingSnapshot[];
+    changed: Array<{ dbField: string; from: MappingSnapshot; to: MappingSnapshot }>;
+    newlyMissing: string[];
+    resolved: string[];
+  };
+  totalChanges: number;
+}
+
+// analysis.ui collections that hold discovered elements; 'filters' repeats the dropdowns and is skipped
+const ELEMENT_KINDS = ['dropdowns', 'searchBoxes', 'checkboxes', 'radioGroups', 'buttons', 'forms', 'tables', 'links', 'navigation'];
+
+// Unmatched elements whose option sets overlap this much are treated as the same element under a new label
+const RENAME_OPTION_SIMILARITY = 0.8;
+
+export function detectSiteDrift(base: LearningRun, target: LearningRun): SiteDriftReport {
+  const elements = diffElements(extractElements(base), extractElements(target));
+  const mappings = diffMappings(base, target);
+
+  const totalChanges =
+    elements.added.length + elements.removed.length + elements.renamed.length +
+    elements.selectorChanged.length + elements.optionsChanged.length +
+    mappings.added.length + mappings.removed.length + mappings.changed.length +
+    mappings.newlyMissing.length + mappings.resolved.length;
+
+  return {
+    baseRunId: base.id,
+    targetRunId: target.id,
+    baseVersion: base.version,
+    targetVersion: target.version,
+    websiteUrl: target.websiteUrl,
+    generatedAt: new Date().toISOString(),
+    tsvChanged: base.tsvFingerprint !== target.tsvFingerprint,
+    elements,
+    mappings,
+    totalChanges
+  };
+}
+
+function extractElements(run: LearningRun): UIElementSnapshot[] {
+  const ui: any = run.learningResults?.analysis?.ui || {};
+  const elements: UIElementSnapshot[] = [];
+
+  for (const kind of ELEMENT_KINDS) {
+    const items = Array.isArray(ui[kind]) ? ui[kind] : [];
+    for (const item of items) {
+      const label = typeof item === 'string' ? item : String(item.text || item.label || item.name || item.selector || '').trim();
+      if (!label) continue;
+
+      elements.push({
+        kind,
+        label,
+        selector: typeof item === 'string' ? '' : String(item.selector || ''),
+        options: Array.isArray(item.allOptions) ? item.allOptions.map((option: any) => String(option)) : []
+      });
+    }
+  }
+
+  return elements;
+}
+
+function diffElements(baseElements: UIElementSnapshot[], targetElements: UIElementSnapshot[]): SiteDriftReport['elements'] {
+  const result: SiteDriftReport['elements'] = { added: [], removed: [], renamed: [], selectorChanged: [], optionsChanged: [] };
+  const key = (element: UIElementSnapshot) => `${element.kind}:${normalize(element.label)}`;
+
+  const targetByKey = new Map(targetElements.map(element => [key(element), element]));
+  const unmatchedBase: UIElementSnapshot[] = [];
+  const matchedTargets = new Set<UIElementSnapshot>();
+
+  // Same kind and label: the same element, possibly with a new selector or option set
+  for (const before of baseElements) {
+    const after = targetByKey.get(key(before));
+    if (!after || matchedTargets.has(after)) {
+      unmatchedBase.push(before);
+      continue;
+    }
+    matchedTargets.add(after);
+    compareElement(before, after, result);
+  }
+
+  let unmatchedTarget = targetElements.filter(element => !matchedTargets.has(element));
+
+  // Different label but same selector, or nearly the same options: a rename
+  for (const before of unmatchedBase) {
+    const after = unmatchedTarget.find(candidate => candidate.kind === before.kind && isRename(before, candidate));
+    if (!after) {
+      result.removed.push(before);
+      continue;
+    }
+    unmatchedTarget = unmatchedTarget.filter(candidate => candidate !== after);
+    result.renamed.push({ kind: before.kind, from: before.label, to: after.label, selector: after.selector });
+    compareElement(before, after, result);
+  }
+
+  result.added.push(...unmatchedTarget);
+  return result;
+}
+
+function compareElement(before: UIElementSnapshot, after: UIElementSnapshot, result: SiteDriftReport['elements']): void {
+  if (before.selector && after.selector && before.selector !== after.selector) {
+    result.selectorChanged.push({ kind: after.kind, label: after.label, from: before.selector, to: after.selector });
+  }
+
+  const beforeOptions = new Set(before.options);
+  const afterOptions = new Set(after.options);
+  const added = after.options.filter(option => !beforeOptions.has(option));
+  const removed = before.options.filter(option => !afterOptions.has(option));
+  if (added.length > 0 || removed.length > 0) {
+    result.optionsChanged.push({ kind: after.kind, label: after.label, added, removed });
+  }
+}
+
+function isRename(before: UIElementSnapshot, after: UIElementSnapshot): boolean {
+  if (before.selector && before.selector === after.selector) {
+    return true;
+  }
+  if (before.options.length === 0 || after.options.length === 0) {
+    return false;
+  }
+
+  const afterOptions = new Set(after.options);
+  const shared = before.options.filter(option => afterOptions.has(option)).length;
+  const union = new Set([...before.options, ...after.options]).size;
+  return shared / union >= RENAME_OPTION_SIMILARITY;
+}
+
+function diffMappings(base: LearningRun, target: LearningRun): SiteDriftReport['mappings'] {
+  const baseMapping: any = base.learningResults?.analysis?.mapping || {};
+  const targetMapping: any = target.learningResults?.analysis?.mapping || {};
+  const toSnapshots = (mappings: any[]): MappingSnapshot[] => (Array.isArray(mappings) ? mappings : [])
+    .map(toMappingSnapshot)
+    .filter((mapping): mapping is MappingSnapshot => mapping !== null);
+
+  const before = new Map(toSnapshots(baseMapping.mappings).map(mapping => [mapping.dbField, mapping]));
+  const after = new Map(toSnapshots(targetMapping.mappings).map(mapping => [mapping.dbField, mapping]));
+
+  const changed: SiteDriftReport['mappings']['changed'] = [];
+  for (const [dbField, from] of before) {
+    const to = after.get(dbField);
+    if (to && (from.uiElement !== to.uiElement || from.type !== to.type || from.selector !== to.selector)) {
+      changed.push({ dbField, from, to });
+    }
+  }
+
+  const baseMissing = new Set<string>(baseMapping.missingMappings || []);
+  const targetMissing = new Set<string>(targetMapping.missingMappings || []);
+
+  return {
+    added: Array.from(after.values()).filter(mapping => !before.has(mapping.dbField)),
+    removed: Array.from(before.values()).filter(mapping => !after.has(mapping.dbField)),
+    changed,
+    newlyMissing: Array.from(targetMissing).filter(field => !baseMissing.has(field)),
+    resolved: Array.from(baseMissing).filter(field => !targetMissing.has(field))
+  };
+}
+
+// The learning orchestrator stores the LLM's tsvField/uiSelector/testType shape; MappingAnalysis uses dbField/selector/type
+function toMappingSnapshot(mapping: any): MappingSnapshot | null {
+  const dbField = mapping?.tsvField ?? mapping?.dbField;
+  if (!dbField) {
+    return null;
+  }
+
+  return {
+    dbField: String(dbField),
+    uiElement: String(mapping.uiElement || ''),
+    type: String(mapping.testType ?? mapping.type ?? ''),
+    selector: String(mapping.uiSelector ?? mapping.selector ?? '')
+  };
+}
+
+function normalize(label: string): string {
+  return label.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+export function renderDriftReportHtml(report: SiteDriftReport): string {
+  const { elements, mappings } = report;
+  const section = (title: string, count: number, body: string) =>
+    `<h2>${escapeHtml(title)} <span class="count">${count}</span></h2>\n${count > 0 ? body : '<p class="none">No changes</p>'}`;
+  const element = (item: UIElementSnapshot) => `${escapeHtml(item.label)} <small>${escapeHtml(item.kind)}${item.selector ? ` &middot; <code>${escapeHtml(item.selector)}</code>` : ''}</small>`;
+  const mapping = (item: MappingSnapshot) => `<code>${escapeHtml(item.dbField)}</code> &rarr; ${escapeHtml(item.uiElement)} <small>${escapeHtml(item.type)}${item.selector ? ` &middot; <code>${escapeHtml(item.selector)}</code>` : ''}</small>`;
+  const list = (items: string[]) => `<ul>${items.map(item => `<li>${item}</li>`).join('')}</ul>`;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Site drift: v${report.baseVersion} &rarr; v${report.targetVersion}</title>
+<style>
+  body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; margin: 24px; color: #222; }
+  .summary { display: flex; gap: 16px; margin-bottom: 24px; }
+  .summary div { padding: 12px 16px; border-radius: 6px; background: #f4f5f7; }
+  .added { color: #28a745; } .removed { color: #dc3545; } .changed { color: #fd7e14; }
+  .count { font-size: 0.7em; color: #6c757d; } .none { color: #6c757d; }
+  code { background: #f8f9fa; padding: 1px 4px; border-radius: 3px; }
+</style>
+</head>
+<body>
+<h1>Site drift for ${escapeHtml(report.websiteUrl)}</h1>
+<p>Learning run <code>${escapeHtml(report.baseRunId)}</code> (v${report.baseVersion}) &rarr; <code>${escapeHtml(report.targetRunId)}</code> (v${report.targetVersion}) &middot; ${escapeHtml(report.generatedAt)}</p>
+<div class="summary">
+  <div>Total changes: <strong>${report.totalChanges}</strong></div>
+  <div>TSV data: <strong>${report.tsvChanged ? 'changed' : 'unchanged'}</strong></div>
+</div>
+${section('Added elements', elements.added.length, list(elements.added.map(item => `<span class="added">+</span> ${element(item)}`)))}
+${section('Removed elements', elements.removed.length, list(elements.removed.map(item => `<span class="removed">&minus;</span> ${element(item)}`)))}
+${section('Renamed elements', elements.renamed.length, list(elements.renamed.map(item =>
+  `<span class="changed">~</span> ${escapeHtml(item.from)} &rarr; ${escapeHtml(item.to)} <small>${escapeHtml(item.kind)}</small>`)))}
+${section('Changed selectors', elements.selectorChanged.length, list(elements.selectorChanged.map(item =>
+  `${escapeHtml(item.label)}: <code class="removed">${escapeHtml(item.from)}</code> &rarr; <code class="added">${escapeHtml(item.to)}</code>`)))}
+${section('Changed options', elements.optionsChanged.length, list(elements.optionsChanged.map(item =>
+  `${escapeHtml(item.label)}:${item.added.length ? ` <span class="added">+ ${item.added.map(escapeHtml).join(', ')}</span>` : ''}${item.removed.length ? ` <span class="removed">&minus; ${item.removed.map(escapeHtml).join(', ')}</span>` : ''}`)))}
+${section('Mapping changes', mappings.added.length + mappings.removed.length + mappings.changed.length, list([
+  ...mappings.added.map(item => `<span class="added">+</span> ${mapping(item)}`),
+  ...mappings.removed.map(item => `<span class="removed">&minus;</span> ${mapping(item)}`),
+  ...mappings.changed.map(item => `<span class="changed">~</span> ${mapping(item.from)}<br>&nbsp;&nbsp;&rarr; ${mapping(item.to)}`)
+]))}
+${section('Missing mappings', mappings.newlyMissing.length + mappings.resolved.length, list([
+  ...mappings.newlyMissing.map(field => `<span class="removed">newly unmapped</span> <code>${escapeHtml(field)}</code>`),
+  ...mappings.resolved.map(field => `<span class="added">now mapped</span> <code>${escapeHtml(field)}</code>`)
+]))}
+</body>
+</html>
+`;
+}
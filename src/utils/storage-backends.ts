@@ -0,0 +1,161 @@
+// src/utils/storage-backends.ts
+// Pluggable persistence for TestStorage - in-memory and JSON file backends
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface StorageBackend {
+  readonly name: string;
+  get<T>(collection: string, id: string): Promise<T | null>;
+  set<T>(collection: string, id: string, value: T): Promise<void>;
+  setMany<T>(collection: string, entries: Array<[string, T]>): Promise<void>;
+  delete(collection: string, id: string): Promise<void>;
+  values<T>(collection: string): Promise<T[]>;
+  count(collection: string): Promise<number>;
+  clear(collections?: string[]): Promise<void>;  // The given collections, or all of them
+}
+
+// Keeps everything in Maps - lost on restart, used for tests and local experiments
+export class InMemoryStorageBackend implements StorageBackend {
+  readonly name: string = 'memory';
+  protected collections: Map<string, Map<string, any>> = new Map();
+
+  async get<T>(collection: string, id: string): Promise<T | null> {
+    return (await this.getCollection(collection)).get(id) || null;
+  }
+
+  async set<T>(collection: string, id: string, value: T): Promise<void> {
+    (await this.getCollection(collection)).set(id, value);
+    await this.persist(collection);
+  }
+
+  async setMany<T>(collection: string, entries: Array<[string, T]>): Promise<void> {
+    const items = await this.getCollection(collection);
+    entries.forEach(([id, value]) => items.set(id, value));
+    await this.persist(collection);
+  }
+
+  async delete(collection: string, id: string): Promise<void> {
+    (await this.getCollection(collection)).delete(id);
+    await this.persist(collection);
+  }
+
+  async values<T>(collection: string): Promise<T[]> {
+    return Array.from((await this.getCollection(collection)).values());
+  }
+
+  async count(collection: string): Promise<number> {
+    return (await this.getCollection(collection)).size;
+  }
+
+  async clear(collections?: string[]): Promise<void> {
+    const names = collections || Array.from(this.collections.keys());
+    for (const name of names) {
+      (await this.getCollection(name)).clear();
+      await this.persist(name);
+    }
+  }
+
+  protected async getCollection(collection: string): Promise<Map<string, any>> {
+    if (!this.collections.has(collection)) {
+      this.collections.set(collection, new Map());
+    }
+    return this.collections.get(collection)!;
+  }
+
+  protected async persist(collection: string): Promise<void> {
+    // Nothing to persist in memory
+  }
+}
+
+// One JSON file per collection under the storage directory, cached in memory after first load
+export class JsonFileStorageBackend extends InMemoryStorageBackend {
+  readonly name: string = 'file';
+  private writeQueues: Map<string, Promise<void>> = new Map();
+
+  constructor(private directory: string) {
+    super();
+    fs.mkdirSync(directory, { recursive: true });
+    console.log(`💾 Test storage persisted to ${directory}`);
+  }
+
+  async clear(collections?: string[]): Promise<void> {
+    // Load collections not touched yet this session so their files are emptied too
+    if (!collections) {
+      for (const file of fs.readdirSync(this.directory).filter(f => f.endsWith('.json'))) {
+        await this.getCollection(path.basename(file, '.json'));
+      }
+    }
+    await super.clear(collections);
+  }
+
+  protected async getCollection(collection: string): Promise<Map<string, any>> {
+    if (!this.collections.has(collection)) {
+      this.collections.set(collection, this.load(collection));
+    }
+    return this.collections.get(collection)!;
+  }
+
+  protected async persist(collection: string): Promise<void> {
+    const items = this.collections.get(collection);
+    if (!items) return;
+
+    // Serialize writes per collection so a slow write never overwrites a newer one
+    const previous = this.writeQueues.get(collection) || Promise.resolve();
+    const next = previous.then(() => this.write(collection, items));
+    this.writeQueues.set(collection, next.catch(() => undefined));
+    await next;
+  }
+
+  private load(collection: string): Map<string, any> {
+    const filePath = this.filePath(collection);
+    if (!fs.existsSync(filePath)) {
+      return new Map();
+    }
+
+    try {
+      const entries = JSON.parse(fs.readFileSync(filePath, 'utf8'), reviveDates);
+      console.log(`📂 Loaded ${entries.length} ${collection} from ${filePath}`);
+      return new Map(entries);
+    } catch (error: any) {
+      throw new Error(`Failed to load ${collection} from ${filePath}: ${error.message}`);
+    }
+  }
+
+  private async write(collection: string, items: Map<string, any>): Promise<void> {
+    const filePath = this.filePath(collection);
+    const tempPath = `${filePath}.tmp`;
+    await fs.promises.writeFile(tempPath, JSON.stringify(Array.from(items.entries()), null, 2));
+    await fs.promises.rename(tempPath, filePath);
+  }
+
+  private filePath(collection: string): string {
+    return path.join(this.directory, `${collection}.json`);
+  }
+}
+
+const DATE_FIELDS = new Set(['createdAt', 'updatedAt', 'startTime', 'endTime']);
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/;
+
+// Restore Date objects so models read back from disk match what was saved
+function reviveDates(key: string, value: any): any {
+  if (DATE_FIELDS.has(key) && typeof value === 'string' && ISO_DATE.test(value)) {
+    return new Date(value);
+  }
+  return value;
+}
+
+// TEST_STORAGE_BACKEND=memory|file (default: file), TEST_STORAGE_DIR=<directory>
+export function createStorageBackend(): StorageBackend {
+  const backend = (process.env.TEST_STORAGE_BACKEND || 'file').toLowerCase();
+
+  switch (backend) {
+    case 'memory':
+      return new InMemoryStorageBackend();
+    case 'file':
+    case 'json':
+      return new JsonFileStorageBackend(process.env.TEST_STORAGE_DIR || path.join(process.cwd(), 'data', 'test-storage'));
+    default:
+      throw new Error(`Unknown TEST_STORAGE_BACKEND "${backend}". Expected "memory" or "file".`);
+  }
+}
@@ -1,70 +1,128 @@
 // src/utils/storage.ts
-// Simple in-memory storage for Phase 2 - LLM-First Approach
+// Test storage for Phase 2 - LLM-First Approach, persisted through a pluggable backend
 
-import { TestCase, TestResult, TestData } from '../models';
+import { TestCase, TestResult, TestData, TestRun, LearningRun } from '../models';
+import { StorageBackend, createStorageBackend } from './storage-backends';
+
+const TEST_CASES = 'testCases';
+const TEST_RESULTS = 'testResults';
+const TEST_DATA = 'testData';
+const TEST_RUNS = 'testRuns';
+const LEARNING_RUNS = 'learningRuns';
 
 export class TestStorage {
-  private testCases: Map<string, TestCase> = new Map();
-  private testResults: Map<string, TestResult> = new Map();
-  private testData: Map<string, TestData> = new Map();
+  constructor(private backend: StorageBackend = createStorageBackend()) {}
 
   // Test Case Management
   async saveTestCase(testCase: TestCase): Promise<void> {
-    this.testCases.set(testCase.id, testCase);
+    await this.backend.set(TEST_CASES, testCase.id, testCase);
   }
 
   async saveTestCases(testCases: TestCase[]): Promise<void> {
-    testCases.forEach(testCase => {
-      this.testCases.set(testCase.id, testCase);
-    });
+    await this.backend.setMany(TEST_CASES, testCases.map(testCase => [testCase.id, testCase] as [string, TestCase]));
   }
 
   async getTestCase(testCaseId: string): Promise<TestCase | null> {
-    return this.testCases.get(testCaseId) || null;
+    return this.backend.get<TestCase>(TEST_CASES, testCaseId);
   }
 
   async getAllTestCases(): Promise<TestCase[]> {
-    return Array.from(this.testCases.values());
+    return this.backend.values<TestCase>(TEST_CASES);
   }
 
   async updateTestCase(testCase: TestCase): Promise<void> {
-    this.testCases.set(testCase.id, testCase);
+    await this.backend.set(TEST_CASES, testCase.id, testCase);
   }
 
   async deleteTestCase(testCaseId: string): Promise<void> {
-    this.testCases.delete(testCaseId);
+    await this.backend.delete(TEST_CASES, testCaseId);
   }
 
-  // Test Result Management
+  // Test Result Management (latest result per test case; full history lives on TestRuns)
   async saveTestResult(testResult: TestResult): Promise<void> {
-    this.testResults.set(testResult.testCaseId, testResult);
+    await this.backend.set(TEST_RESULTS, testResult.testCaseId, testResult);
   }
 
   async getTestResult(testCaseId: string): Promise<TestResult | null> {
-    return this.testResults.get(testCaseId) || null;
+    return this.backend.get<TestResult>(TEST_RESULTS, testCaseId);
   }
 
   async getAllTestResults(): Promise<TestResult[]> {
-    return Array.from(this.testResults.values());
+    return this.backend.values<TestResult>(TEST_RESULTS);
+  }
+
+  async getTestResultsByRun(runId: string): Promise<TestResult[]> {
+    const testRun = await this.getTestRun(runId);
+    return testRun ? testRun.results : [];
+  }
+
+  // Every result recorded for a test case, oldest run first
+  async getTestResultHistory(testCaseId: string): Promise<TestResult[]> {
+    const testRuns = await this.getAllTestRuns();
+    return testRuns
+      .reverse()
+      .flatMap(run => run.results.filter(result => result.testCaseId === testCaseId));
+  }
+
+  // Test Run Management
+  async saveTestRun(testRun: TestRun): Promise<void> {
+    await this.backend.set(TEST_RUNS, testRun.id, testRun);
+  }
+
+  async getTestRun(runId: string): Promise<TestRun | null> {
+    return this.backend.get<TestRun>(TEST_RUNS, runId);
+  }
+
+  // Newest run first
+  async getAllTestRuns(): Promise<TestRun[]> {
+    const testRuns = await this.backend.values<TestRun>(TEST_RUNS);
+    return testRuns.sort((a, b) => new Date(b.startTime).getTime() - new Date(a.startTime).getTime());
+  }
+
+  // Learning Run Management
+  async saveLearningRun(learningRun: LearningRun): Promise<void> {
+    await this.backend.set(LEARNING_RUNS, learningRun.id, learningRun);
+  }
+
+  async getLearningRun(learningRunId: string): Promise<LearningRun | null> {
+    return this.backend.get<LearningRun>(LEARNING_RUNS, learningRunId);
+  }
+
+  // Newest run first, optionally only the runs against one website
+  async getAllLearningRuns(websiteUrl?: string): Promise<LearningRun[]> {
+    const learningRuns = await this.backend.values<LearningRun>(LEARNING_RUNS);
+    return learningRuns
+      .filter(run => !websiteUrl || run.websiteUrl === websiteUrl)
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  }
+
+  async getLatestLearningRun(websiteUrl?: string): Promise<LearningRun | null> {
+    const [latest] = await this.getAllLearningRuns(websiteUrl);
+    return latest || null;
+  }
+
+  async deleteLearningRun(learningRunId: string): Promise<void> {
+    await this.backend.delete(LEARNING_RUNS, learningRunId);
   }
 
   // Test Data Management
   async saveTestData(testData: TestData): Promise<void> {
-    this.testData.set(testData.id, testData);
+    await this.backend.set(TEST_DATA, testData.id, testData);
   }
 
   async getTestData(testDataId: string): Promise<TestData | null> {
-    return this.testData.get(testDataId) || null;
+    return this.backend.get<TestData>(TEST_DATA, testDataId);
   }
 
   async getTestDataByTestCase(testCaseId: string): Promise<TestData[]> {
-    return Array.from(this.testData.values()).filter(td => td.testCaseId === testCaseId);
+    const testData = await this.backend.values<TestData>(TEST_DATA);
+    return testData.filter(td => td.testCaseId === testCaseId);
   }
 
   // Search and Filter
   async searchTestCases(query: string): Promise<TestCase[]> {
-    const testCases = Array.from(this.testCases.values());
-    return testCases.filter(tc => 
+    const testCases = await this.backend.values<TestCase>(TEST_CASES);
+    return testCases.filter(tc =>
       tc.name.toLowerCase().includes(query.toLowerCase()) ||
       tc.description.toLowerCase().includes(query.toLowerCase()) ||
       tc.tags.some(tag => tag.toLowerCase().includes(query.toLowerCase()))
@@ -76,31 +134,32 @@ export class TestStorage {
     priority?: string;
     status?: string;
   }): Promise<TestCase[]> {
-    let testCases = Array.from(this.testCases.values());
-    
+    let testCases = await this.backend.values<TestCase>(TEST_CASES);
+
     if (filters.category) {
       testCases = testCases.filter(tc => tc.category === filters.category);
     }
-    
+
     if (filters.priority) {
       testCases = testCases.filter(tc => tc.priority === filters.priority);
     }
-    
+
     if (filters.status) {
       testCases = testCases.filter(tc => tc.status === filters.status);
     }
-    
+
     return testCases;
   }
 
   // Statistics
   async getTestStatistics(): Promise<any> {
-    const testCases = Array.from(this.testCases.values());
-    const testResults = Array.from(this.testResults.values());
-    
+    const testCases = await this.backend.values<TestCase>(TEST_CASES);
+    const testResults = await this.backend.values<TestResult>(TEST_RESULTS);
+
     return {
       totalTestCases: testCases.length,
       totalTestResults: testResults.length,
+      totalTestRuns: await this.backend.count(TEST_RUNS),
       byCategory: this.groupBy(testCases, 'category'),
       byPriority: this.groupBy(testCases, 'priority'),
       byStatus: this.groupBy(testCases, 'status'),
@@ -120,28 +179,31 @@ export class TestStorage {
 
   // Export/Import
   async exportTestCases(): Promise<TestCase[]> {
-    return Array.from(this.testCases.values());
+    return this.backend.values<TestCase>(TEST_CASES);
   }
 
   async importTestCases(testCases: TestCase[]): Promise<void> {
-    testCases.forEach(testCase => {
-      this.testCases.set(testCase.id, testCase);
-    });
+    await this.saveTestCases(testCases);
   }
 
-  // Clear all data
+  // Clear test cases, results, data and runs; learning runs are kept and need clearLearningRuns
   async clearAllData(): Promise<void> {
-    this.testCases.clear();
-    this.testResults.clear();
-    this.testData.clear();
+    await this.backend.clear([TEST_CASES, TEST_RESULTS, TEST_DATA, TEST_RUNS]);
+  }
+
+  async clearLearningRuns(): Promise<void> {
+    await this.backend.clear([LEARNING_RUNS]);
   }
 
   // Get storage info
   async getStorageInfo(): Promise<any> {
     return {
-      testCasesCount: this.testCases.size,
-      testResultsCount: this.testResults.size,
-      testDataCount: this.testData.size,
+      backend: this.backend.name,
+      testCasesCount: await this.backend.count(TEST_CASES),
+      testResultsCount: await this.backend.count(TEST_RESULTS),
+      testDataCount: await this.backend.count(TEST_DATA),
+      testRunsCount: await this.backend.count(TEST_RUNS),
+      learningRunsCount: await this.backend.count(LEARNING_RUNS),
       memoryUsage: process.memoryUsage()
     };
   }
@@ -0,0 +1,12 @@
+// src/utils/string-hash.ts
+// Fast non-cryptographic string hash shared by the offline embedders
+
+// 32-bit FNV-1a over UTF-16 code units
+export function fnv1a(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
@@ -0,0 +1,328 @@
+// src/utils/test-execution-engine.ts
+// Playwright-backed execution of stored test cases for Phase 2
+
+import { MCPPlaywrightClient, ToolCallOptions } from '../chatbot/mcp-client';
+import { ToolCall } from '../chatbot/types';
+import { ToolCallError } from '../chatbot/tool-errors';
+import { UIStateCapturer, UIState } from './ui-state-capturer';
+import { TestStorage } from './storage';
+import { SimpleRAGClient } from './simple-rag-client';
+import { resultRowsSelector } from './results-table';
+import { TestCase, TestResult, TestStep, TestStepResult } from '../models';
+
+export interface TestExecutionOptions {
+    timeout?: number;        // Per-step timeout in milliseconds
+    websiteUrl?: string;     // Overrides TestCase.websiteUrl
+    runId?: string;          // TestRun the result belongs to
+    signal?: AbortSignal;    // Aborts the tool call in flight and fails the case
+}
+
+// Finds the TSV gold standard learned for a website, or null when there is none
+export type GoldStandardResolver = (websiteUrl: string) => Promise<SimpleRAGClient | null>;
+
+export class TestExecutionEngine {
+    private stateCapturer: UIStateCapturer;
+
+    constructor(
+        private mcpClient: MCPPlaywrightClient,
+        private storage: TestStorage,
+        private goldStandardFor: GoldStandardResolver | null = null
+    ) {
+        this.stateCapturer = new UIStateCapturer(mcpClient);
+    }
+
+    async executeTestCase(testCaseId: string, options: TestExecutionOptions = {}): Promise<TestResult> {
+        const startTime = new Date();
+        const testCase = await this.storage.getTestCase(testCaseId);
+
+        if (!testCase) {
+            const result: TestResult = {
+                testCaseId,
+                runId: options.runId,
+                status: 'error',
+                startTime,
+                endTime: new Date(),
+                duration: 0,
+                screenshots: [],
+                error: `Test case ${testCaseId} not found in storage`
+            };
+            await this.storage.saveTestResult(result);
+            return result;
+        }
+
+        console.log(`▶️ Executing test case: ${testCase.name} (${testCase.id})`);
+
+        const screenshots: string[] = [];
+        const stepResults: TestStepResult[] = [];
+        let beforeState: UIState | null = null;
+        let afterState: UIState | null = null;
+        let status: TestResult['status'] = 'passed';
+        let failureReason: string | undefined;
+        let validation: TestResult['validation'];
+        const callOptions: ToolCallOptions = { timeout: options.timeout, signal: options.signal };
+
+        try {
+            const websiteUrl = options.websiteUrl || testCase.websiteUrl;
+            if (websiteUrl) {
+                await this.runTool('playwright_navigate', { url: websiteUrl }, callOptions);
+            }
+
+            beforeState = await this.stateCapturer.captureState();
+            await this.collectScreenshot(screenshots, `${testCase.id}-before`);
+
+            for (let i = 0; i < testCase.steps.length; i++) {
+                const step = testCase.steps[i];
+                const stepStart = Date.now();
+
+                if (typeof step === 'string') {
+                    // Descriptive steps from the LLM carry no executable action
+                    stepResults.push({
+                        stepIndex: i,
+                        action: 'manual',
+                        description: step,
+                        status: 'skipped',
+                        duration: 0
+                    });
+                    continue;
+                }
+
+                try {
+                    afterState = await this.executeStep(step, testCase, callOptions) || afterState;
+
+                    stepResults.push({
+                        stepIndex: i,
+                        action: step.action,
+                        description: step.description,
+                        status: 'passed',
+                        duration: Date.now() - stepStart
+                    });
+                } catch (error: any) {
+                    stepResults.push({
+                        stepIndex: i,
+                        action: step.action,
+                        description: step.description,
+                        status: 'failed',
+                        duration: Date.now() - stepStart,
+                        error: error.message,
+                        errorType: error instanceof ToolCallError ? error.errorType : undefined
+                    });
+                    status = 'failed';
+                    failureReason = `Step ${i + 1} (${step.description}) failed: ${error.message}`;
+                    console.error(`❌ ${failureReason}`);
+                    break;
+                }
+            }
+
+            if (!afterState) {
+                afterState = await this.stateCapturer.captureState();
+            }
+
+            // The data belongs to the site the case was learned on, even when it runs against another URL
+            validation = await this.validateAgainstTSV(testCase, testCase.websiteUrl || websiteUrl, callOptions, this.resultsTableSelector(testCase));
+            if (validation && !validation.passed && !validation.skipped && status === 'passed') {
+                status = 'failed';
+                failureReason = `TSV validation failed: ${validation.message}`;
+            }
+        } catch (error: any) {
+            // Navigation or state capture failures mean the case could not run at all
+            status = 'error';
+            failureReason = error.message;
+            console.error(`❌ Test case ${testCase.id} errored:`, error);
+        }
+
+        await this.collectScreenshot(screenshots, `${testCase.id}-after`);
+
+        const endTime = new Date();
+        const result: TestResult = {
+            testCaseId: testCase.id,
+            testCaseName: testCase.name,
+            runId: options.runId,
+            status,
+            startTime,
+            endTime,
+            duration: endTime.getTime() - startTime.getTime(),
+            screenshots,
+            error: failureReason,
+            stepResults,
+            stateChanges: beforeState && afterState ? this.stateCapturer.detectChanges(beforeState, afterState) : undefined,
+            validation
+        };
+
+        await this.storage.saveTestResult(result);
+        await this.storage.updateTestCase({
+            ...testCase,
+            status: status === 'passed' ? 'executed' : 'failed',
+            updatedAt: endTime
+        });
+
+        console.log(`${status === 'passed' ? '✅' : '❌'} ${testCase.name}: ${status} in ${result.duration}ms`);
+        return result;
+    }
+
+    // Validate steps check the UI and return the state they captured
+    private async executeStep(step: TestStep, testCase: TestCase, callOptions: ToolCallOptions): Promise<UIState | undefined> {
+        switch (step.action) {
+            case 'navigate':
+                await this.runTool('playwright_navigate', { url: step.url || step.value }, callOptions);
+                break;
+            case 'click':
+                await this.runTool('playwright_click', { selector: step.selector }, callOptions);
+                break;
+            case 'select':
+                if (step.selector) {
+                    await this.runTool('playwright_select', { selector: step.selector, value: step.value }, callOptions);
+                } else {
+                    // Custom dropdowns: the preceding click opened the menu, pick the option by its text
+                    await this.runTool('playwright_click', { selector: `text=${step.value}` }, callOptions);
+                }
+                break;
+            case 'fill':
+                await this.runTool('playwright_fill', { selector: step.selector, value: step.value }, callOptions);
+                break;
+            case 'press':
+                await this.runTool('playwright_press_key', { key: step.value, ...(step.selector ? { selector: step.selector } : {}) }, callOptions);
+                break;
+            case 'validate': {
+                const state = await this.stateCapturer.captureState();
+                await this.validateCount(step, testCase, state, callOptions);
+                return state;
+            }
+            default: {
+                const action: never = step.action;
+                throw new Error(`Unsupported step action: ${action}`);
+            }
+        }
+        return undefined;
+    }
+
+    // Counts the same rows an exported spec's toHaveCount assertion does
+    private async validateCount(step: TestStep, testCase: TestCase, state: UIState, callOptions: ToolCallOptions): Promise<void> {
+        const expectedCount = step.expectedCount ?? testCase.expectedCount;
+        if (expectedCount === undefined) {
+            return;
+        }
+
+        const rowsSelector = resultRowsSelector(step.selector);
+        const content = await this.runTool('playwright_evaluate', {
+            script: `document.querySelectorAll(${JSON.stringify(rowsSelector)}).length`
+        }, callOptions);
+        const actualCount = Number(this.evaluateResult(content));
+        if (actualCount !== expectedCount) {
+            throw new Error(`Expected ${expectedCount} results, "${rowsSelector}" matches ${actualCount} rows (${state.resultCountText})`);
+        }
+    }
+
+    // The table named by the case's last validate step that has a selector
+    private resultsTableSelector(testCase: TestCase): string | undefined {
+        const validateSteps = testCase.steps.filter((step): step is TestStep => typeof step !== 'string' && step.action === 'validate' && !!step.selector);
+        return validateSteps[validateSteps.length - 1]?.selector;
+    }
+
+    // Compare the rows shown in the UI with the TSV gold standard for the case's filter
+    private async validateAgainstTSV(testCase: TestCase, websiteUrl: string | undefined, callOptions: ToolCallOptions, tableSelector?: string): Promise<TestResult['validation']> {
+        if (!testCase.dataField || !testCase.testValues?.length) {
+            return undefined;
+        }
+
+        const ragClient = websiteUrl && this.goldStandardFor ? await this.goldStandardFor(websiteUrl) : null;
+        if (!ragClient || !ragClient.hasData()) {
+            const message = `No TSV data learned for ${websiteUrl || 'this test case'} - gold standard validation skipped`;
+            console.warn(`⚠️ ${message} (${testCase.id})`);
+            return { passed: false, skipped: true, expectedCount: 0, actualCount: 0, validationChecks: {}, message };
+        }
+
+        const expectedResults = await ragClient.generateExpectedResults(testCase);
+        const actualRecords = await this.extractTableRows(ragClient, callOptions, tableSelector);
+        const validation = await ragClient.validateResults(actualRecords, expectedResults);
+
+        return {
+            passed: validation.passed,
+            expectedCount: validation.expectedCount,
+            actualCount: validation.actualCount,
+            validationChecks: validation.validationChecks,
+            message: validation.message
+        };
+    }
+
+    // Scrape the visible data table as records keyed by TSV field names.
+    // Paginated tables only expose the current page of rows.
+    private async extractTableRows(ragClient: SimpleRAGClient, callOptions: ToolCallOptions, tableSelector?: string): Promise<any[]> {
+        const content = await this.runTool('playwright_evaluate', {
+            script: `(() => {
+                const table = document.querySelector(${JSON.stringify(tableSelector || 'table')});
+                if (!table) return [];
+                const headers = Array.from(table.querySelectorAll('thead th')).map(th => th.textContent.trim());
+                return Array.from(document.querySelectorAll(${JSON.stringify(resultRowsSelector(tableSelector))})).map(tr => {
+                    const row = {};
+                    Array.from(tr.querySelectorAll('td')).forEach((td, i) => {
+                        row[headers[i] || 'column_' + i] = td.textContent.trim();
+                    });
+                    return row;
+                });
+            })()`
+        }, callOptions);
+
+        const parsed = this.evaluateResult(content);
+        const rows: any[] = Array.isArray(parsed) ? parsed : [];
+
+        // UI headers ("Case ID") rarely match TSV field names ("case_id") exactly
+        const normalize = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, '');
+        const fieldsByKey = new Map(ragClient.getFieldNames().map(field => [normalize(field), field]));
+
+        return rows.map(row => {
+            const record: any = {};
+            for (const [header, value] of Object.entries(row)) {
+                record[fieldsByKey.get(normalize(header)) || header] = value;
+            }
+            return record;
+        });
+    }
+
+    // Evaluate output is [..., "Result:", "<JSON>"]; undefined when it holds no JSON
+    private evaluateResult(content: any): any {
+        const items: any[] = content || [];
+        const resultIndex = items.findIndex(item => item.text === 'Result:');
+        const jsonItem = resultIndex >= 0 ? items[resultIndex + 1] : items[items.length - 1];
+        try {
+            return JSON.parse(jsonItem?.text);
+        } catch (error) {
+            console.warn('⚠️ Could not parse the evaluate result');
+            return undefined;
+        }
+    }
+
+    private async runTool(name: string, parameters: Record<string, any>, callOptions: ToolCallOptions = {}): Promise<any> {
+        const toolCall: ToolCall = {
+            id: `exec-${name}-${Date.now()}`,
+            name,
+            parameters
+        };
+
+        const results = await this.mcpClient.callTools([toolCall], { ...callOptions, timeout: callOptions.timeout ?? 30000 });
+        const result = results[0];
+
+        if (!result) {
+            throw new Error(`${name} returned no result`);
+        }
+        if (!result.success) {
+            throw new ToolCallError(name, result);
+        }
+
+        return result.result;
+    }
+
+    private async collectScreenshot(screenshots: string[], name: string): Promise<void> {
+        try {
+            const content = await this.runTool('playwright_screenshot', { name, savePng: true });
+            const text = (content || []).map((item: any) => item.text || '').join('\n');
+            const match = text.match(/Screenshot saved to:\s*(\S+)/);
+
+            if (match) {
+                // Saved into the Downloads folder, which express serves under /screenshots
+                screenshots.push(`/screenshots/${match[1].split('/').pop()}`);
+            }
+        } catch (error: any) {
+            console.warn(`⚠️ Screenshot ${name} failed: ${error.message}`);
+        }
+    }
+}
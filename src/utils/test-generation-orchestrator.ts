@@ -2,30 +2,51 @@
 // Main orchestrator for Phase 2 - LLM-First Test Generation
 
 import * as fs from 'fs';
-import { BedrockClient } from '../chatbot/bedrock-client';
-import { MCPPlaywrightClient } from '../chatbot/mcp-client';
+import { LLMProvider } from '../chatbot/llm-provider';
+import { MCPSessionPool } from '../chatbot/mcp-session-pool';
 import { TestStorage } from './storage';
-import { TestCase, TestData, LearningResults, DatabaseAnalysis } from '../models';
+import { TestExecutionEngine } from './test-execution-engine';
+import { TestReportWriter } from './test-report-writer';
+import { VectorRAGClient, vectorIndexKeyFor } from './vector-rag-client';
+import { TestCase, TestData, TestResult, TestRun, TestStep, LearningResults, DatabaseAnalysis } from '../models';
 
 export class TestGenerationOrchestrator {
   constructor(
-    private bedrockClient: BedrockClient,
-    private mcpClient: MCPPlaywrightClient,
+    private bedrockClient: LLMProvider,
+    private sessionPool: MCPSessionPool,
     private storage: TestStorage,
-    private playwrightLearningOrchestrator: any  // Get RAG client dynamically from this
+    private playwrightLearningOrchestrator: any,  // Get RAG client dynamically from this
+    private reportWriter?: TestReportWriter
   ) {}
 
-  // Main test generation method - now uses RAG queries
-  async generateTestCases(learningResults: LearningResults, testOptions?: any): Promise<{success: boolean, testCases?: TestCase[], statistics?: any, error?: string}> {
+  // Main test generation method - now uses RAG queries against the learned site's vector index
+  async generateTestCases(learningResults: LearningResults, testOptions?: any, websiteUrl?: string): Promise<{success: boolean, testCases?: TestCase[], statistics?: any, error?: string}> {
     try {
-      console.log('🔍 RAG-Centric Test Generation...');
+      console.log(`🔍 RAG-Centric Test Generation${websiteUrl ? ` for ${websiteUrl}` : ''}...`);
       
-      // Get RAG client from playwright orchestrator
-      const vectorRAG = (this.playwrightLearningOrchestrator as any).vectorRAG;
-      if (!vectorRAG) {
-        throw new Error('VectorRAG client not available. Cannot perform RAG-centric test generation.');
+      // The site's index only holds the UI and mapping knowledge of its latest learning run,
+      // so an earlier run is generated from the mapping artifact stored with it
+      const runMappings = this.mappingsOf(learningResults);
+      if (runMappings.length > 0) {
+        const testCases = runMappings.map(mapping => this.buildTestCase({ metadata: mapping }, websiteUrl));
+        await this.storage.saveTestCases(testCases);
+        
+        console.log(`✅ Generated ${testCases.length} test cases from the learning run's ${runMappings.length} mappings`);
+        
+        return {
+          success: true,
+          testCases: testCases,
+          statistics: {
+            totalTestCases: testCases.length,
+            mappingsUsed: runMappings.length,
+            mappingSource: 'learning-run',
+            ragQueries: 0
+          }
+        };
       }
       
+      const vectorRAG = await this.getVectorRAG(websiteUrl);
+      
       // Query RAG for all mappings
       const mappings = await vectorRAG.queryMappings("Get all UI to TSV mappings");
       console.log(`📊 Found ${mappings.length} mappings in RAG`);
@@ -43,14 +64,10 @@ export class TestGenerationOrchestrator {
       }
       
       // Generate tests based on RAG knowledge
-      const testCases = suggestedTests.map(test => ({
-        name: test.name || `Test ${test.metadata?.uiLabel || 'Unknown'}`,
-        dataField: test.metadata?.tsvField || 'unknown',
-        uiSelector: test.metadata?.uiSelector || 'unknown',
-        testValues: test.metadata?.sampleValues || ['test'],
-        expectedCount: test.metadata?.expectedCount || 0,
-        steps: this.generateTestSteps(test)
-      }));
+      const testCases = suggestedTests.map(test => this.buildTestCase(test, websiteUrl));
+      
+      // Persist so executeTestCases can load them by id
+      await this.storage.saveTestCases(testCases);
       
       console.log(`✅ Generated ${testCases.length} test cases from RAG`);
       
@@ -60,6 +77,7 @@ export class TestGenerationOrchestrator {
         statistics: {
           totalTestCases: testCases.length,
           mappingsUsed: mappings.length,
+          mappingSource: 'rag',
           ragQueries: 2
         }
       };
@@ -73,7 +91,67 @@ export class TestGenerationOrchestrator {
     }
   }
 
-  private generateTestSteps(test: any): any[] {
+  // A site's persisted index serves any stored learning run of it, also after a restart; without a site
+  // only the index of the learning run in memory is available
+  private async getVectorRAG(websiteUrl?: string): Promise<any> {
+    if (!websiteUrl) {
+      const vectorRAG = (this.playwrightLearningOrchestrator as any)?.vectorRAG;
+      if (!vectorRAG) {
+        throw new Error('VectorRAG client not available. Cannot perform RAG-centric test generation.');
+      }
+      return vectorRAG;
+    }
+
+    const vectorRAG = new VectorRAGClient(this.bedrockClient);
+    const indexKey = vectorIndexKeyFor(websiteUrl);
+    await vectorRAG.useIndex(indexKey.project, indexKey.dataset);
+    return vectorRAG;
+  }
+
+  // Mappings as the learning orchestrator stores them (tsvField/uiElement/uiSelector) or in the
+  // MappingAnalysis shape (dbField/selector), in the metadata shape of RAG mapping entries
+  private mappingsOf(learningResults: LearningResults): any[] {
+    const mappings: any[] = learningResults?.analysis?.mapping?.mappings || [];
+    return mappings
+      .filter(mapping => mapping?.tsvField ?? mapping?.dbField)
+      .map(mapping => ({
+        uiLabel: mapping.uiElement ?? mapping.uiLabel,
+        uiSelector: mapping.uiSelector ?? mapping.selector,
+        tsvField: mapping.tsvField ?? mapping.dbField,
+        sampleValues: Array.isArray(mapping.sampleValues) && mapping.sampleValues.length > 0 ? mapping.sampleValues.map(String) : undefined
+      }));
+  }
+
+  private buildTestCase(test: any, websiteUrl?: string): TestCase {
+    const now = new Date();
+    const uiLabel = test.metadata?.uiLabel || 'Unknown';
+    const dataField = test.metadata?.tsvField || 'unknown';
+    const uiSelector = test.metadata?.uiSelector || 'unknown';
+    const expectedCount = test.metadata?.expectedCount || 0;
+
+    return {
+      id: `test-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      name: test.name || `Test ${uiLabel}`,
+      description: `Validate ${uiLabel} against TSV field ${dataField}`,
+      category: 'data_validation',
+      priority: 'medium',
+      status: 'ready',
+      steps: this.generateTestSteps(test),
+      selectors: [uiSelector],
+      testData: { uiLabel, uiSelector },
+      expectedResults: [`Result count equals ${expectedCount}`],
+      dataField,
+      testValues: test.metadata?.sampleValues || ['test'],
+      type: 'filter_test',
+      websiteUrl,
+      expectedCount,
+      createdAt: now,
+      updatedAt: now,
+      tags: ['rag-generated', dataField]
+    };
+  }
+
+  private generateTestSteps(test: any): TestStep[] {
     // Generate test steps based on RAG knowledge
     return [
       {
@@ -95,32 +173,96 @@ export class TestGenerationOrchestrator {
   }
 
   // Execute test cases method (required by express-server)
-  async executeTestCases(testCaseIds: string[], options?: any): Promise<{success: boolean, results?: any, statistics?: any, error?: string}> {
+  async executeTestCases(testCaseIds: string[], options?: any): Promise<{success: boolean, results?: TestResult[], statistics?: any, run?: TestRun, error?: string}> {
+    const executionOptions = options || {};
+    const websiteUrl = executionOptions.websiteUrl || await this.findWebsiteUrl(testCaseIds);
+    const testRun: TestRun = {
+      id: `run-${new Date().toISOString().replace(/[:.]/g, '-')}`,
+      status: 'running',
+      startTime: new Date(),
+      duration: 0,
+      environment: executionOptions.environment || process.env.TEST_ENVIRONMENT || process.env.NODE_ENV || 'development',
+      websiteUrl,
+      testCaseIds,
+      results: []
+    };
+
     try {
-      console.log('🚀 Executing test cases:', testCaseIds);
+      console.log(`🚀 Executing test cases in ${testRun.id}:`, testCaseIds);
+      await this.storage.saveTestRun(testRun);
+      
+      // Each run leases its own browser; cases within a run share its page, so they run sequentially
+      await this.sessionPool.withSession(`test-run:${testRun.id}`, async client => {
+        const executionEngine = new TestExecutionEngine(
+          client,
+          this.storage,
+          this.playwrightLearningOrchestrator ? (url: string) => this.playwrightLearningOrchestrator.getRagClientFor(url) : null
+        );
+
+        for (const testCaseId of testCaseIds) {
+          const result = await executionEngine.executeTestCase(testCaseId, { ...executionOptions, runId: testRun.id });
+          testRun.results.push(result);
+          await this.storage.saveTestRun(testRun);
+        }
+      });
+      
+      testRun.status = 'completed';
+      testRun.endTime = new Date();
+      testRun.duration = testRun.endTime.getTime() - testRun.startTime.getTime();
+      await this.storage.saveTestRun(testRun);
+      
+      if (this.reportWriter) {
+        try {
+          const testCases = await this.storage.getAllTestCases();
+          await this.reportWriter.writeRunReport(testRun, testCases.filter(tc => testCaseIds.includes(tc.id)));
+        } catch (error: any) {
+          // A failed report must not hide the results of the run itself
+          console.error(`⚠️ Failed to write report for ${testRun.id}:`, error);
+        }
+      }
+      
+      const statistics = this.calculateRunStatistics(testRun);
+      console.log(`✅ Execution finished: ${statistics.passed}/${statistics.total} passed`);
       
-      // For now, return a placeholder implementation
       return {
         success: true,
-        results: {
-          executed: testCaseIds.length,
-          passed: testCaseIds.length,
-          failed: 0,
-          duration: 1000
-        },
-        statistics: {
-          total: testCaseIds.length,
-          passed: testCaseIds.length,
-          failed: 0,
-          duration: 1000
-        }
+        results: testRun.results,
+        statistics,
+        run: testRun
       };
     } catch (error: any) {
       console.error('❌ Test execution failed:', error);
+      testRun.status = 'error';
+      testRun.endTime = new Date();
+      testRun.duration = testRun.endTime.getTime() - testRun.startTime.getTime();
+      testRun.error = error.message;
+      await this.storage.saveTestRun(testRun).catch(() => undefined);
       return {
         success: false,
         error: `Test execution failed: ${error.message}`
       };
     }
   }
-}
\ No newline at end of file
+
+  // The site the executed test cases were generated for
+  private async findWebsiteUrl(testCaseIds: string[]): Promise<string | undefined> {
+    for (const testCaseId of testCaseIds) {
+      const testCase = await this.storage.getTestCase(testCaseId);
+      if (testCase?.websiteUrl) {
+        return testCase.websiteUrl;
+      }
+    }
+    return undefined;
+  }
+
+  private calculateRunStatistics(testRun: TestRun): any {
+    return {
+      runId: testRun.id,
+      total: testRun.results.length,
+      passed: testRun.results.filter(r => r.status === 'passed').length,
+      failed: testRun.results.filter(r => r.status === 'failed').length,
+      error: testRun.results.filter(r => r.status === 'error').length,
+      duration: testRun.duration
+    };
+  }
+}
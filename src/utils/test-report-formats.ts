@@ -0,0 +1,164 @@
+// src/utils/test-report-formats.ts
+// Machine-readable run reports for CI: JUnit XML and a versioned JSON format
+
+import { TestRun, TestResult, TestCase } from '../models';
+
+// Bump when fields are removed or change meaning; adding fields is backwards compatible
+export const JSON_REPORT_SCHEMA_VERSION = 1;
+
+export interface JsonReport {
+  schemaVersion: number;
+  generator: string;
+  run: {
+    id: string;
+    status: TestRun['status'];
+    environment: string;
+    websiteUrl: string | null;
+    startTime: string;
+    endTime: string | null;
+    durationMs: number;
+  };
+  summary: {
+    total: number;
+    passed: number;
+    failed: number;
+    error: number;
+    skipped: number;
+  };
+  testCases: Array<{
+    id: string;
+    name: string;
+    category: string | null;
+    status: TestResult['status'];
+    durationMs: number;
+    error: string | null;
+    validation: {
+      passed: boolean;
+      skipped: boolean;
+      expectedCount: number;
+      actualCount: number;
+      message: string;
+    } | null;
+    steps: Array<{
+      index: number;
+      action: string;
+      description: string;
+      status: string;
+      durationMs: number;
+      error: string | null;
+    }>;
+    screenshots: string[];
+  }>;
+}
+
+export function toJsonReport(testRun: TestRun, testCases: TestCase[] = []): JsonReport {
+  const casesById = new Map(testCases.map(testCase => [testCase.id, testCase]));
+
+  return {
+    schemaVersion: JSON_REPORT_SCHEMA_VERSION,
+    generator: 'UniversalTestAgent',
+    run: {
+      id: testRun.id,
+      status: testRun.status,
+      environment: testRun.environment,
+      websiteUrl: testRun.websiteUrl || null,
+      startTime: new Date(testRun.startTime).toISOString(),
+      endTime: testRun.endTime ? new Date(testRun.endTime).toISOString() : null,
+      durationMs: testRun.duration
+    },
+    summary: summarize(testRun.results),
+    testCases: testRun.results.map(result => ({
+      id: result.testCaseId,
+      name: result.testCaseName || casesById.get(result.testCaseId)?.name || result.testCaseId,
+      category: casesById.get(result.testCaseId)?.category || null,
+      status: result.status,
+      durationMs: result.duration,
+      error: result.error || null,
+      validation: result.validation ? {
+        passed: result.validation.passed,
+        skipped: !!result.validation.skipped,
+        expectedCount: result.validation.expectedCount,
+        actualCount: result.validation.actualCount,
+        message: result.validation.message
+      } : null,
+      steps: (result.stepResults || []).map(step => ({
+        index: step.stepIndex,
+        action: step.action,
+        description: step.description,
+        status: step.status,
+        durationMs: step.duration,
+        error: step.error || null
+      })),
+      screenshots: result.screenshots
+    }))
+  };
+}
+
+// One <testsuite> per run, one <testcase> per executed TestCase
+export function toJUnitXml(testRun: TestRun, testCases: TestCase[] = []): string {
+  const casesById = new Map(testCases.map(testCase => [testCase.id, testCase]));
+  const summary = summarize(testRun.results);
+  const time = seconds(testRun.duration);
+
+  const testcases = testRun.results.map(result => {
+    const testCase = casesById.get(result.testCaseId);
+    const name = result.testCaseName || testCase?.name || result.testCaseId;
+    const classname = `${testRun.id}.${testCase?.category || 'test'}`;
+
+    let body = '';
+    if (result.status === 'failed') {
+      // Validation mismatches are the usual failure; step errors otherwise
+      const validationFailed = !!result.validation && !result.validation.passed && !result.validation.skipped;
+      const message = validationFailed ? result.validation!.message : result.error || 'Test failed';
+      const type = validationFailed ? 'ValidationFailure' : 'StepFailure';
+      body = `\n      <failure message="${escapeXml(firstLine(message))}" type="${type}">${escapeXml(message)}${result.error && result.error !== message ? `\n${escapeXml(result.error)}` : ''}</failure>\n    `;
+    } else if (result.status === 'error') {
+      body = `\n      <error message="${escapeXml(firstLine(result.error || 'Execution error'))}" type="ExecutionError">${escapeXml(result.error || '')}</error>\n    `;
+    } else if (result.status === 'skipped') {
+      body = '\n      <skipped/>\n    ';
+    }
+
+    return `    <testcase name="${escapeXml(name)}" classname="${escapeXml(classname)}" time="${seconds(result.duration)}">${body}</testcase>`;
+  }).join('\n');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<testsuites name="UniversalTestAgent" tests="${summary.total}" failures="${summary.failed}" errors="${summary.error}" skipped="${summary.skipped}" time="${time}">
+  <testsuite name="${escapeXml(testRun.id)}" tests="${summary.total}" failures="${summary.failed}" errors="${summary.error}" skipped="${summary.skipped}" time="${time}" timestamp="${new Date(testRun.startTime).toISOString()}">
+    <properties>
+      <property name="environment" value="${escapeXml(testRun.environment)}"/>
+      <property name="websiteUrl" value="${escapeXml(testRun.websiteUrl || '')}"/>
+    </properties>
+${testcases}
+  </testsuite>
+</testsuites>
+`;
+}
+
+function summarize(results: TestResult[]): JsonReport['summary'] {
+  return {
+    total: results.length,
+    passed: results.filter(r => r.status === 'passed').length,
+    failed: results.filter(r => r.status === 'failed').length,
+    error: results.filter(r => r.status === 'error').length,
+    skipped: results.filter(r => r.status === 'skipped').length
+  };
+}
+
+function seconds(milliseconds: number): string {
+  return ((milliseconds || 0) / 1000).toFixed(3);
+}
+
+function firstLine(message: string): string {
+  return message.split('\n')[0];
+}
+
+function escapeXml(value: string): string {
+  return String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+    // Control characters other than tab/newline/CR are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+}
@@ -0,0 +1,135 @@
+// src/utils/test-report-writer.ts
+// Writes test-reports/<runId>/run-metadata.json, summary-report.html, junit.xml and report.json after each execution
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { TestRun, TestResult, TestCase } from '../models';
+import { toJUnitXml, toJsonReport } from './test-report-formats';
+
+export interface RunMetadata {
+  runId: string;
+  timestamp: string;
+  totalTests: number;
+  passed: number;
+  failed: number;
+  error: number;
+  duration: number;
+  environment: string;
+  websiteUrl?: string;
+}
+
+export class TestReportWriter {
+  constructor(
+    private reportsDir: string,
+    private screenshotsDir: string
+  ) {}
+
+  getRunDirectory(runId: string): string {
+    return path.join(this.reportsDir, runId);
+  }
+
+  async writeRunReport(testRun: TestRun, testCases: TestCase[] = []): Promise<RunMetadata> {
+    const runDir = this.getRunDirectory(testRun.id);
+    await fs.promises.mkdir(runDir, { recursive: true });
+
+    const metadata = this.buildMetadata(testRun);
+    await fs.promises.writeFile(path.join(runDir, 'run-metadata.json'), JSON.stringify(metadata, null, 2));
+    await fs.promises.writeFile(path.join(runDir, 'summary-report.html'), this.renderSummary(testRun, metadata));
+    await fs.promises.writeFile(path.join(runDir, 'junit.xml'), toJUnitXml(testRun, testCases));
+    await fs.promises.writeFile(path.join(runDir, 'report.json'), JSON.stringify(toJsonReport(testRun, testCases), null, 2));
+
+    console.log(`📝 Test report written to ${runDir}`);
+    return metadata;
+  }
+
+  private buildMetadata(testRun: TestRun): RunMetadata {
+    return {
+      runId: testRun.id,
+      timestamp: new Date(testRun.startTime).toISOString(),
+      totalTests: testRun.results.length,
+      passed: testRun.results.filter(r => r.status === 'passed').length,
+      failed: testRun.results.filter(r => r.status === 'failed').length,
+      error: testRun.results.filter(r => r.status === 'error').length,
+      duration: testRun.duration,
+      environment: testRun.environment,
+      websiteUrl: testRun.websiteUrl
+    };
+  }
+
+  private renderSummary(testRun: TestRun, metadata: RunMetadata): string {
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Test Run ${escapeHtml(testRun.id)}</title>
+<style>
+  body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; margin: 24px; color: #222; }
+  .summary { display: flex; gap: 16px; margin-bottom: 24px; }
+  .summary div { padding: 12px 16px; border-radius: 6px; background: #f4f5f7; }
+  .case { border: 1px solid #ddd; border-radius: 6px; padding: 16px; margin-bottom: 16px; }
+  .passed { color: #28a745; } .failed { color: #dc3545; } .error { color: #fd7e14; } .skipped { color: #6c757d; }
+  pre { white-space: pre-wrap; background: #f8f9fa; padding: 8px; border-radius: 4px; }
+  img { max-width: 480px; border: 1px solid #ccc; margin: 4px; }
+</style>
+</head>
+<body>
+<h1>Test Run ${escapeHtml(testRun.id)}</h1>
+<p>${escapeHtml(metadata.timestamp)} &middot; ${escapeHtml(testRun.environment)}${testRun.websiteUrl ? ` &middot; ${escapeHtml(testRun.websiteUrl)}` : ''}</p>
+<div class="summary">
+  <div>Total: <strong>${metadata.totalTests}</strong></div>
+  <div class="passed">Passed: <strong>${metadata.passed}</strong></div>
+  <div class="failed">Failed: <strong>${metadata.failed}</strong></div>
+  <div class="error">Error: <strong>${metadata.error}</strong></div>
+  <div>Duration: <strong>${metadata.duration}ms</strong></div>
+</div>
+${testRun.results.map(result => this.renderResult(result)).join('\n')}
+</body>
+</html>
+`;
+  }
+
+  private renderResult(result: TestResult): string {
+    const steps = (result.stepResults || []).map(step =>
+      `<li class="${step.status}">${escapeHtml(step.description)} &mdash; ${step.status} (${step.duration}ms)${step.error ? `<br><small>${escapeHtml(step.error)}</small>` : ''}</li>`
+    ).join('');
+
+    const validationStatus = result.validation?.skipped ? 'skipped' : result.validation?.passed ? 'passed' : 'failed';
+    const validation = result.validation ? `
+  <h4>TSV Validation: <span class="${validationStatus}">${validationStatus}</span></h4>
+  <p>Expected ${result.validation.expectedCount}, actual ${result.validation.actualCount}</p>
+  <pre>${escapeHtml(result.validation.message)}</pre>` : '';
+
+    const screenshots = result.screenshots
+      .map(screenshot => this.embedScreenshot(screenshot))
+      .filter(Boolean)
+      .join('');
+
+    return `<div class="case">
+  <h3>${escapeHtml(result.testCaseName || result.testCaseId)} <span class="${result.status}">${result.status}</span></h3>
+  <p>${result.duration}ms</p>
+  ${result.error ? `<pre class="failed">${escapeHtml(result.error)}</pre>` : ''}
+  ${steps ? `<h4>Steps</h4><ol>${steps}</ol>` : ''}
+  ${validation}
+  ${screenshots ? `<h4>Screenshots</h4>${screenshots}` : ''}
+</div>`;
+  }
+
+  // Inline screenshots as data URIs so the report stays readable when copied elsewhere
+  private embedScreenshot(screenshot: string): string {
+    const filePath = path.join(this.screenshotsDir, path.basename(screenshot));
+    if (!fs.existsSync(filePath)) {
+      return '';
+    }
+
+    const data = fs.readFileSync(filePath).toString('base64');
+    return `<img src="data:image/png;base64,${data}" alt="${escapeHtml(path.basename(screenshot))}">`;
+  }
+}
+
+export function escapeHtml(value: string): string {
+  return String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
@@ -1,28 +1,85 @@
-import { S3Client, PutObjectCommand } from '@aws-sdk/client-s3';
-import { BedrockClient } from '../chatbot/bedrock-client';
+import { createHash } from 'crypto';
+import { LLMProvider } from '../chatbot/llm-provider';
+import {
+    EmbeddingProvider, EmbeddingSignature, createEmbeddingProvider, isCompatibleEmbedding, describeEmbedding
+} from './embedding-providers';
+import {
+    VectorStore, VectorStoreEntry, VectorStoreOperation, VectorIndexKey,
+    createVectorStore, emptySnapshot, describeIndexKey
+} from './vector-store';
+
+// Vector indexes are kept per site unless VECTOR_STORE_PROJECT pins one, so re-learning a site reuses its embeddings
+export function vectorIndexKeyFor(websiteUrl: string): VectorIndexKey {
+    let project = process.env.VECTOR_STORE_PROJECT;
+    if (!project) {
+        try {
+            project = new URL(websiteUrl).host;
+        } catch {
+            project = websiteUrl;
+        }
+    }
+    return { project, dataset: process.env.VECTOR_STORE_DATASET || 'default' };
+}
+
+// Compact once the log holds this many operations per live entry or file
+const COMPACTION_RATIO = 2;
 
 export class VectorRAGClient {
-    private s3Client: S3Client;
-    private bedrockClient: BedrockClient;
-    private vectorStore: Map<string, any> = new Map();
+    private embeddings: EmbeddingProvider;
+    private store: VectorStore;
+    private indexKey: VectorIndexKey | null = null;
+    private embeddingSignature: EmbeddingSignature | null = null;
+    private vectorStore: Map<string, VectorStoreEntry> = new Map();
     private tsvMetadata: any = {};
+    private tsvFingerprints: Record<string, string> = {};
+    // Changes not yet written to the store, and the store's operation count once they are
+    private pendingOperations: VectorStoreOperation[] = [];
+    private operationCount = 0;
+    // UI and mapping knowledge dropped by beginLearningRun, kept only so relearned descriptions reuse their vectors
+    private previousKnowledge: Map<string, VectorStoreEntry> = new Map();
     
-    constructor(bedrockClient: BedrockClient) {
-        // Initialize S3 client
-        this.s3Client = new S3Client({
-            region: process.env.AWS_REGION,
-            credentials: {
-                accessKeyId: process.env.AWS_ACCESS_KEY_ID!,
-                secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY!
-            }
-        });
-        this.bedrockClient = bedrockClient;
+    constructor(
+        bedrockClient: LLMProvider,
+        store: VectorStore = createVectorStore(),
+        embeddings: EmbeddingProvider = createEmbeddingProvider(bedrockClient)
+    ) {
+        this.store = store;
+        this.embeddings = embeddings;
+        
+        console.log(`✅ VectorRAGClient initialized with ${store.name} vector store and ${embeddings.name} embeddings (${embeddings.modelId})`);
+    }
+    
+    // Switches to the persisted index for a project/dataset, loading its embeddings and TSV metadata
+    async useIndex(project: string, dataset: string = 'default'): Promise<void> {
+        const key: VectorIndexKey = { project, dataset };
+        if (this.indexKey && describeIndexKey(this.indexKey) === describeIndexKey(key)) {
+            return;
+        }
+        
+        await this.saveVectorStore();
+        let snapshot = (await this.store.load(key)) || emptySnapshot(key);
         
-        // Clear existing vector store to force re-indexing with new metadata structure
-        this.vectorStore.clear();
+        // Vectors from another embedder are meaningless to this one, so the index is rebuilt from scratch
+        if (snapshot.embedding && !isCompatibleEmbedding(snapshot.embedding, this.embeddings)) {
+            console.warn(`⚠️ Vector index ${describeIndexKey(key)} was built with ${describeEmbedding(snapshot.embedding)}; ` +
+                `discarding it for ${this.embeddings.name}/${this.embeddings.modelId}`);
+            snapshot = emptySnapshot(key);
+            await this.store.compact(snapshot);
+        }
+        
+        this.indexKey = key;
+        this.previousKnowledge = new Map();
+        this.embeddingSignature = snapshot.embedding;
+        this.vectorStore = snapshot.entries;
         this.tsvMetadata = {};
+        this.tsvFingerprints = {};
+        snapshot.files.forEach((file, fileName) => {
+            this.tsvMetadata[fileName] = file.metadata;
+            this.tsvFingerprints[fileName] = file.fingerprint;
+        });
+        this.operationCount = snapshot.operationCount;
         
-        console.log('✅ VectorRAGClient initialized with S3 and Bedrock');
+        console.log(`📚 Vector index ${describeIndexKey(key)}: ${this.vectorStore.size} embeddings, ${snapshot.files.size} TSV files`);
     }
     
     async indexTSVData(tsvFiles: any[]): Promise<void> {
@@ -30,6 +87,10 @@ export class VectorRAGClient {
             throw new Error('No TSV files provided for indexing. Cannot proceed with pure RAG system.');
         }
         
+        if (!this.indexKey) {
+            await this.useIndex('default');
+        }
+        
         console.log('\n' + '='.repeat(80));
         console.log('🔍 RAG: STARTING VECTOR EMBEDDING CREATION (Pure AI Mode)');
         console.log('='.repeat(80));
@@ -38,8 +99,24 @@ export class VectorRAGClient {
         console.log('🔍 DEBUG: First file name:', tsvFiles[0]?.name);
         console.log('🔍 DEBUG: First file content length:', tsvFiles[0]?.content?.length);
         
+        // Files dropped from the TSV set no longer belong in this index
+        const currentFileNames = new Set(tsvFiles.map(file => file.name));
+        for (const fileName of Object.keys(this.tsvFingerprints)) {
+            if (!currentFileNames.has(fileName)) {
+                console.log(`\n🗑️  Removing ${fileName} from the vector index`);
+                this.removeTSVFile(fileName);
+            }
+        }
+        
         for (const file of tsvFiles) {
             console.log(`\n📊 Processing File: ${file.name}`);
+            const fingerprint = createHash('sha256').update(file.content || '').digest('hex');
+            if (this.tsvFingerprints[file.name] === fingerprint) {
+                const reused = Array.from(this.vectorStore.values()).filter(entry => entry.fileName === file.name).length;
+                console.log(`  └─ ⏭️  Unchanged since last indexing, reusing ${reused} embeddings`);
+                continue;
+            }
+            
             const records = this.parseTSV(file.content);
             
             if (records.length === 0) {
@@ -47,6 +124,7 @@ export class VectorRAGClient {
             }
             
             console.log(`  ├─ Total Records: ${records.length}`);
+            this.removeTSVFile(file.name);
             
             // Store metadata
             const headers = Object.keys(records[0] || {});
@@ -63,12 +141,14 @@ export class VectorRAGClient {
                 uniqueValues: uniqueValuesMap,
                 sampleRecords: records.slice(0, 10)
             };
+            this.tsvFingerprints[file.name] = fingerprint;
+            this.pendingOperations.push({ op: 'file', fileName: file.name, file: { fingerprint, metadata: this.tsvMetadata[file.name] } });
             
             console.log(`  ├─ Headers: ${this.tsvMetadata[file.name].headers.join(', ')}`);
             
             // Create embeddings (NO SIMULATION - real Bedrock calls)
             const chunks = this.chunkRecords(records, parseInt(process.env.RAG_CHUNK_SIZE || '50'));
-            console.log(`\n  🔢 Creating ${chunks.length} embeddings via Bedrock Titan...`);
+            console.log(`\n  🔢 Creating ${chunks.length} embeddings via ${this.embeddings.name} (${this.embeddings.modelId})...`);
             
             for (let i = 0; i < chunks.length; i++) {
                 const chunkText = this.recordsToText(chunks[i]);
@@ -78,10 +158,11 @@ export class VectorRAGClient {
                 // REAL embedding creation - will throw error if fails
                 const embedding = await this.createEmbedding(chunkText);
                 
-                this.vectorStore.set(embedding.id, {
+                this.putEntry({
+                    id: this.entryId(`${file.name}:${i}`, chunkText),
                     fileName: file.name,
                     records: chunks[i],
-                    embedding: embedding.vector,
+                    embedding: embedding,
                     text: chunkText,
                     metadata: {
                         type: 'tsv_record',
@@ -91,18 +172,18 @@ export class VectorRAGClient {
                     }
                 });
                 
-                console.log(`  │  ✅ Embedding ID: ${embedding.id}, Dimensions: ${embedding.vector.length}`);
+                console.log(`  │  ✅ Embedding ${i + 1} created, Dimensions: ${embedding.length}`);
             }
         }
         
-        // Save to S3 (REQUIRED - will throw error if fails)
+        // Persist (REQUIRED - will throw error if fails)
         await this.saveVectorStore();
         
         console.log('\n' + '='.repeat(80));
         console.log('✅ RAG: VECTOR STORE COMPLETE');
         console.log(`  ├─ Total Embeddings: ${this.vectorStore.size}`);
-        console.log(`  ├─ TSV Metadata Files: ${this.tsvMetadata.size}`);
-        console.log(`  └─ S3 Bucket: ${process.env.S3_BUCKET_NAME}`);
+        console.log(`  ├─ TSV Metadata Files: ${Object.keys(this.tsvMetadata).length}`);
+        console.log(`  └─ Vector Index: ${describeIndexKey(this.indexKey!)} (${this.store.name})`);
         console.log('='.repeat(80) + '\n');
 
         // Verify the vector store is not empty
@@ -111,6 +192,37 @@ export class VectorRAGClient {
         }
     }
     
+    // UI and mapping entries describe one learning run of the site; a new run replaces them instead of
+    // piling its entries (whose ids include the LLM's reasoning) on top of stale ones. TSV entries are kept.
+    async beginLearningRun(): Promise<void> {
+        const previous = new Map<string, VectorStoreEntry>();
+        for (const [id, entry] of this.vectorStore) {
+            if (!entry.fileName) {
+                previous.set(id, entry);
+                this.vectorStore.delete(id);
+                this.pendingOperations.push({ op: 'delete', id });
+            }
+        }
+        this.previousKnowledge = previous;
+        
+        if (previous.size > 0) {
+            console.log(`🗑️  Cleared ${previous.size} UI and mapping entries from the previous learning run`);
+        }
+        await this.saveVectorStore();
+    }
+    
+    // Raw TSV records kept in a site's index, in file and chunk order; the index need not be the active one
+    async loadTSVRecords(key: VectorIndexKey): Promise<any[]> {
+        const entries = this.indexKey && describeIndexKey(this.indexKey) === describeIndexKey(key)
+            ? Array.from(this.vectorStore.values())
+            : Array.from((await this.store.load(key))?.entries.values() || []);
+        
+        return entries
+            .filter(entry => entry.fileName && entry.records)
+            .sort((a, b) => a.fileName!.localeCompare(b.fileName!) || a.metadata.chunkIndex - b.metadata.chunkIndex)
+            .flatMap(entry => entry.records!);
+    }
+    
     async searchRelevantData(query: string, topK?: number): Promise<any[]> {
         if (this.vectorStore.size === 0) {
             throw new Error('Vector store is empty. Run indexTSVData() first. NO FALLBACK AVAILABLE.');
@@ -130,7 +242,7 @@ export class VectorRAGClient {
         // Calculate similarities
         const results = [];
         for (const [id, chunk] of this.vectorStore.entries()) {
-            const similarity = this.cosineSimilarity(queryEmbedding.vector, chunk.embedding);
+            const similarity = this.cosineSimilarity(queryEmbedding, chunk.embedding);
             if (similarity >= minSimilarity) {
                 results.push({ ...chunk, similarity, id });
             }
@@ -158,72 +270,102 @@ export class VectorRAGClient {
         }));
     }
     
-    private async createEmbedding(text: string): Promise<any> {
-        const truncatedText = text.substring(0, 8000); // Titan limit
-        
-        if (text.length > 8000) {
-            console.log(`     ⚠️  Text truncated: ${text.length} → 8000 chars`);
-        }
-        
+    private async createEmbedding(text: string): Promise<number[]> {
+        let vector: number[];
         try {
-            const response = await this.bedrockClient.invokeModel({
-                modelId: process.env.BEDROCK_EMBEDDING_MODEL_ID!,
-                contentType: 'application/json',
-                accept: 'application/json',
-                body: JSON.stringify({ inputText: truncatedText })
-            });
-            
-            if (!response.embedding || !Array.isArray(response.embedding)) {
-                throw new Error('Invalid embedding response from Bedrock');
-            }
-            
-            return {
-                id: `emb-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-                vector: response.embedding
-            };
+            vector = await this.embeddings.embed(text);
         } catch (error: any) {
             throw new Error(`Failed to create embedding: ${error.message}. Pure RAG system cannot proceed without embeddings.`);
         }
+        
+        // The first vector fixes the index's embedder; any later mismatch would make similarities meaningless
+        if (!this.embeddingSignature) {
+            this.embeddingSignature = {
+                provider: this.embeddings.name,
+                modelId: this.embeddings.modelId,
+                dimensions: vector.length,
+                ...(this.embeddings.backend ? { backend: this.embeddings.backend } : {})
+            };
+            if (this.indexKey) {
+                this.pendingOperations.push({ op: 'embedding', embedding: this.embeddingSignature });
+            }
+        } else if (vector.length !== this.embeddingSignature.dimensions) {
+            throw new Error(`Embedding has ${vector.length} dimensions but the vector index uses ${describeEmbedding(this.embeddingSignature)}. ` +
+                'Cannot mix incompatible vectors.');
+        }
+        return vector;
     }
 
     private async createAndStoreEmbedding(text: string, metadata: any): Promise<void> {
-        const embedding = await this.createEmbedding(text);
+        // The same description learned again keeps its vector; only the metadata is refreshed
+        const id = this.entryId(metadata.type, text);
+        const existing = this.vectorStore.get(id) || this.previousKnowledge.get(id);
+        const vector = existing ? existing.embedding : await this.createEmbedding(text);
         
-        this.vectorStore.set(embedding.id, {
+        this.putEntry({
+            id,
             text: text,
-            embedding: embedding.vector,
+            embedding: vector,
             metadata: metadata
         });
         
-        console.log(`✅ Stored embedding: ${embedding.id} (${metadata.type})`);
+        console.log(`✅ ${existing ? 'Reused' : 'Stored'} embedding: ${id} (${metadata.type})`);
     }
     
-    private async saveVectorStore(): Promise<void> {
-        const data = {
-            metadata: this.tsvMetadata,
-            vectors: Array.from(this.vectorStore.entries()),
-            timestamp: new Date().toISOString(),
-            stats: {
-                totalFiles: Object.keys(this.tsvMetadata).length,
-                totalEmbeddings: this.vectorStore.size,
-                totalRecords: Object.values(this.tsvMetadata).reduce((sum: number, m: any) => sum + m.recordCount, 0)
+    // Content-derived ids, so re-indexing identical text replaces an entry instead of duplicating it
+    private entryId(scope: string, text: string): string {
+        return `emb-${createHash('sha256').update(`${scope}\0${text}`).digest('hex').substring(0, 24)}`;
+    }
+    
+    private putEntry(entry: VectorStoreEntry): void {
+        this.vectorStore.set(entry.id, entry);
+        this.pendingOperations.push({ op: 'put', entry });
+    }
+    
+    private removeTSVFile(fileName: string): void {
+        for (const [id, entry] of this.vectorStore) {
+            if (entry.fileName === fileName) {
+                this.vectorStore.delete(id);
+                this.pendingOperations.push({ op: 'delete', id });
             }
-        };
+        }
+        if (fileName in this.tsvFingerprints) {
+            delete this.tsvMetadata[fileName];
+            delete this.tsvFingerprints[fileName];
+            this.pendingOperations.push({ op: 'removeFile', fileName });
+        }
+    }
+    
+    // Appends pending changes to the index, compacting it once superseded entries dominate
+    private async saveVectorStore(): Promise<void> {
+        if (!this.indexKey || this.pendingOperations.length === 0) {
+            return;
+        }
         
-        const key = `vector-store-${Date.now()}.json`;
-        console.log(`\n💾 Saving to S3: ${key}`);
+        const operations = this.pendingOperations;
+        this.pendingOperations = [];
+        console.log(`\n💾 Saving ${operations.length} changes to vector index ${describeIndexKey(this.indexKey)} (${this.store.name})`);
+        await this.store.append(this.indexKey, operations);
+        this.operationCount += operations.length;
         
-        try {
-            await this.s3Client.send(new PutObjectCommand({
-                Bucket: process.env.S3_BUCKET_NAME!,
-                Key: key,
-                Body: JSON.stringify(data),
-                ContentType: 'application/json'
-            }));
-            console.log(`  ✅ Saved successfully`);
-        } catch (error: any) {
-            throw new Error(`Failed to save vector store to S3: ${error.message}. Data not persisted.`);
+        const liveCount = this.vectorStore.size + Object.keys(this.tsvFingerprints).length;
+        if (this.operationCount > liveCount * COMPACTION_RATIO) {
+            await this.compact();
+        }
+    }
+    
+    async compact(): Promise<void> {
+        if (!this.indexKey) return;
+        await this.saveVectorStore();
+        
+        const snapshot = emptySnapshot(this.indexKey);
+        snapshot.entries = new Map(this.vectorStore);
+        snapshot.embedding = this.embeddingSignature;
+        for (const [fileName, fingerprint] of Object.entries(this.tsvFingerprints)) {
+            snapshot.files.set(fileName, { fingerprint, metadata: this.tsvMetadata[fileName] });
         }
+        await this.store.compact(snapshot);
+        this.operationCount = snapshot.entries.size + snapshot.files.size;
     }
     
     getTSVMetadata(): any {
@@ -417,23 +559,30 @@ export class VectorRAGClient {
     }
 
     async storeMappingResult(mapping: any): Promise<void> {
-        console.log(`💾 Storing mapping result: ${mapping.uiLabel} → ${mapping.tsvField}`);
-        
+        await this.storeMappingResults([mapping]);
+    }
+    
+    // Embeds every mapping, then writes them to the vector store in one append
+    async storeMappingResults(mappings: any[]): Promise<void> {
         try {
-            const mappingDescription = `UI element "${mapping.uiLabel}" (${mapping.uiSelector}) maps to TSV field "${mapping.tsvField}" in file "${mapping.tsvFile}" with confidence ${mapping.confidence}. ${mapping.reasoning || ''}`;
-            
-            await this.createAndStoreEmbedding(mappingDescription, {
-                type: 'ui_tsv_mapping',
-                uiLabel: mapping.uiLabel,
-                uiSelector: mapping.uiSelector,
-                tsvField: mapping.tsvField,
-                tsvFile: mapping.tsvFile,
-                confidence: mapping.confidence,
-                reasoning: mapping.reasoning,
-                dataMismatch: mapping.dataMismatch
-            });
+            for (const mapping of mappings) {
+                console.log(`💾 Storing mapping result: ${mapping.uiLabel} → ${mapping.tsvField}`);
+                const mappingDescription = `UI element "${mapping.uiLabel}" (${mapping.uiSelector}) maps to TSV field "${mapping.tsvField}" in file "${mapping.tsvFile}" with confidence ${mapping.confidence}. ${mapping.reasoning || ''}`;
+                
+                await this.createAndStoreEmbedding(mappingDescription, {
+                    type: 'ui_tsv_mapping',
+                    uiLabel: mapping.uiLabel,
+                    uiSelector: mapping.uiSelector,
+                    tsvField: mapping.tsvField,
+                    tsvFile: mapping.tsvFile,
+                    confidence: mapping.confidence,
+                    reasoning: mapping.reasoning,
+                    dataMismatch: mapping.dataMismatch
+                });
+            }
             
-            console.log(`✅ Mapping stored successfully`);
+            await this.saveVectorStore();
+            console.log(`✅ ${mappings.length} mappings stored successfully`);
             
         } catch (error: any) {
             console.error(`❌ Failed to store mapping:`, error);
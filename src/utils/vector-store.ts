@@ -0,0 +1,321 @@
+// src/utils/vector-store.ts
+// Pluggable persistence for VectorRAGClient - in-memory, local append-only log and S3 stores, one index per project/dataset
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { S3Client, GetObjectCommand, PutObjectCommand } from '@aws-sdk/client-s3';
+import { EmbeddingSignature } from './embedding-providers';
+
+export interface VectorIndexKey {
+  project: string;
+  dataset: string;
+}
+
+export interface VectorStoreEntry {
+  id: string;
+  text: string;
+  embedding: number[];
+  metadata: any;
+  fileName?: string;
+  records?: any[];
+}
+
+// Per-TSV file state, so re-learning can skip files whose content has not changed
+export interface IndexedFile {
+  fingerprint: string;
+  metadata: any;
+}
+
+export interface VectorIndexSnapshot {
+  key: VectorIndexKey;
+  entries: Map<string, VectorStoreEntry>;
+  files: Map<string, IndexedFile>;
+  // Embedder that produced every vector in the index; unset until the first vector is stored
+  embedding: EmbeddingSignature | null;
+  // Operations recorded since the last compaction; grows with every superseded entry
+  operationCount: number;
+  updatedAt: string;
+}
+
+export type VectorStoreOperation =
+  | { op: 'put'; entry: VectorStoreEntry }
+  | { op: 'delete'; id: string }
+  | { op: 'file'; fileName: string; file: IndexedFile }
+  | { op: 'removeFile'; fileName: string }
+  | { op: 'embedding'; embedding: EmbeddingSignature };
+
+export interface VectorStore {
+  readonly name: string;
+  load(key: VectorIndexKey): Promise<VectorIndexSnapshot | null>;
+  append(key: VectorIndexKey, operations: VectorStoreOperation[]): Promise<void>;
+  // Rewrites the index as just its live entries, dropping superseded and deleted ones
+  compact(snapshot: VectorIndexSnapshot): Promise<void>;
+}
+
+export function emptySnapshot(key: VectorIndexKey): VectorIndexSnapshot {
+  return { key, entries: new Map(), files: new Map(), embedding: null, operationCount: 0, updatedAt: new Date().toISOString() };
+}
+
+export function applyOperations(snapshot: VectorIndexSnapshot, operations: VectorStoreOperation[]): VectorIndexSnapshot {
+  for (const operation of operations) {
+    switch (operation.op) {
+      case 'put':
+        snapshot.entries.set(operation.entry.id, operation.entry);
+        break;
+      case 'delete':
+        snapshot.entries.delete(operation.id);
+        break;
+      case 'file':
+        snapshot.files.set(operation.fileName, operation.file);
+        break;
+      case 'removeFile':
+        snapshot.files.delete(operation.fileName);
+        break;
+      case 'embedding':
+        snapshot.embedding = operation.embedding;
+        break;
+    }
+  }
+  snapshot.operationCount += operations.length;
+  snapshot.updatedAt = new Date().toISOString();
+  return snapshot;
+}
+
+// The operations that rebuild a snapshot from nothing
+export function snapshotOperations(snapshot: VectorIndexSnapshot): VectorStoreOperation[] {
+  return [
+    ...(snapshot.embedding ? [{ op: 'embedding' as const, embedding: snapshot.embedding }] : []),
+    ...Array.from(snapshot.files.entries()).map(([fileName, file]) => ({ op: 'file' as const, fileName, file })),
+    ...Array.from(snapshot.entries.values()).map(entry => ({ op: 'put' as const, entry }))
+  ];
+}
+
+export function describeIndexKey(key: VectorIndexKey): string {
+  return `${key.project}/${key.dataset}`;
+}
+
+function safeSegment(value: string): string {
+  return value.replace(/[^a-zA-Z0-9._-]/g, '_') || 'default';
+}
+
+// Nothing survives a restart - the behaviour before persistence, kept for tests and offline experiments
+export class InMemoryVectorStore implements VectorStore {
+  readonly name: string = 'memory';
+  private indexes: Map<string, VectorIndexSnapshot> = new Map();
+
+  async load(key: VectorIndexKey): Promise<VectorIndexSnapshot | null> {
+    const snapshot = this.indexes.get(describeIndexKey(key));
+    return snapshot ? applyOperations(emptySnapshot(key), snapshotOperations(snapshot)) : null;
+  }
+
+  async append(key: VectorIndexKey, operations: VectorStoreOperation[]): Promise<void> {
+    const id = describeIndexKey(key);
+    this.indexes.set(id, applyOperations(this.indexes.get(id) || emptySnapshot(key), operations));
+  }
+
+  async compact(snapshot: VectorIndexSnapshot): Promise<void> {
+    this.indexes.set(describeIndexKey(snapshot.key), applyOperations(emptySnapshot(snapshot.key), snapshotOperations(snapshot)));
+  }
+}
+
+// One JSON-lines operation log per index under <directory>/<project>/<dataset>.jsonl; appends are cheap,
+// compaction rewrites the log with only the live entries
+export class LocalVectorStore implements VectorStore {
+  readonly name: string = 'file';
+  private writeQueues: Map<string, Promise<void>> = new Map();
+
+  constructor(private directory: string) {
+    fs.mkdirSync(directory, { recursive: true });
+    console.log(`💾 Vector store persisted to ${directory}`);
+  }
+
+  async load(key: VectorIndexKey): Promise<VectorIndexSnapshot | null> {
+    const filePath = this.filePath(key);
+    if (!fs.existsSync(filePath)) {
+      return null;
+    }
+
+    try {
+      const content = await fs.promises.readFile(filePath, 'utf8');
+      const lines = content.split('\n');
+      const operations: VectorStoreOperation[] = [];
+      for (let i = 0; i < lines.length; i++) {
+        if (!lines[i].trim()) continue;
+        try {
+          operations.push(JSON.parse(lines[i]));
+        } catch (error: any) {
+          if (lines.slice(i + 1).some(line => line.trim())) {
+            throw new Error(`line ${i + 1}: ${error.message}`);
+          }
+          // A crash mid-append leaves a partial last line; drop it so later appends start on a clean line
+          console.warn(`⚠️ Dropping incomplete last line ${i + 1} of ${filePath}`);
+          const validLength = Buffer.byteLength(lines.slice(0, i).map(line => `${line}\n`).join(''));
+          await this.enqueue(key, () => fs.promises.truncate(filePath, validLength));
+        }
+      }
+      const snapshot = applyOperations(emptySnapshot(key), operations);
+      console.log(`📂 Loaded vector index ${describeIndexKey(key)}: ${snapshot.entries.size} embeddings, ${snapshot.files.size} TSV files`);
+      return snapshot;
+    } catch (error: any) {
+      throw new Error(`Failed to load vector index from ${filePath}: ${error.message}`);
+    }
+  }
+
+  async append(key: VectorIndexKey, operations: VectorStoreOperation[]): Promise<void> {
+    if (operations.length === 0) return;
+    const lines = operations.map(operation => JSON.stringify(operation)).join('\n') + '\n';
+    await this.enqueue(key, () => fs.promises.appendFile(this.filePath(key), lines));
+  }
+
+  async compact(snapshot: VectorIndexSnapshot): Promise<void> {
+    const filePath = this.filePath(snapshot.key);
+    const lines = snapshotOperations(snapshot).map(operation => JSON.stringify(operation)).join('\n') + '\n';
+
+    await this.enqueue(snapshot.key, async () => {
+      const tempPath = `${filePath}.tmp`;
+      await fs.promises.writeFile(tempPath, lines);
+      await fs.promises.rename(tempPath, filePath);
+    });
+    console.log(`🧹 Compacted vector index ${describeIndexKey(snapshot.key)} to ${snapshot.entries.size} embeddings`);
+  }
+
+  // Serialize writes per index so an append never interleaves with a compaction
+  private async enqueue(key: VectorIndexKey, write: () => Promise<void>): Promise<void> {
+    const id = describeIndexKey(key);
+    await fs.promises.mkdir(path.dirname(this.filePath(key)), { recursive: true });
+
+    const previous = this.writeQueues.get(id) || Promise.resolve();
+    const next = previous.then(write);
+    this.writeQueues.set(id, next.catch(() => undefined));
+    await next;
+  }
+
+  private filePath(key: VectorIndexKey): string {
+    return path.join(this.directory, safeSegment(key.project), `${safeSegment(key.dataset)}.jsonl`);
+  }
+}
+
+// One JSON object per index. S3 has no append, so appends apply to a cached copy of the index and rewrite
+// the object; only the first access per index reads it. Assumes one server writes each index.
+export class S3VectorStore implements VectorStore {
+  readonly name: string = 's3';
+  private s3Client: S3Client;
+  private cache: Map<string, VectorIndexSnapshot> = new Map();
+  private writeQueues: Map<string, Promise<void>> = new Map();
+
+  constructor(private bucket: string, private prefix: string = 'vector-stores/') {
+    this.s3Client = new S3Client({
+      region: process.env.AWS_REGION,
+      credentials: {
+        accessKeyId: process.env.AWS_ACCESS_KEY_ID!,
+        secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY!
+      }
+    });
+    console.log(`💾 Vector store persisted to s3://${bucket}/${prefix}`);
+  }
+
+  // Callers own the returned maps, so they get a copy of the cached index
+  async load(key: VectorIndexKey): Promise<VectorIndexSnapshot | null> {
+    const cached = await this.cached(key);
+    return cached ? applyOperations(emptySnapshot(key), snapshotOperations(cached)) : null;
+  }
+
+  async append(key: VectorIndexKey, operations: VectorStoreOperation[]): Promise<void> {
+    if (operations.length === 0) return;
+    await this.enqueue(key, async () => {
+      const snapshot = applyOperations((await this.cached(key)) || emptySnapshot(key), operations);
+      this.cache.set(describeIndexKey(key), snapshot);
+      try {
+        await this.write(snapshot);
+      } catch (error) {
+        // The next access reads what S3 actually holds
+        this.cache.delete(describeIndexKey(key));
+        throw error;
+      }
+    });
+  }
+
+  async compact(snapshot: VectorIndexSnapshot): Promise<void> {
+    const copy = applyOperations(emptySnapshot(snapshot.key), snapshotOperations(snapshot));
+    await this.enqueue(snapshot.key, async () => {
+      this.cache.set(describeIndexKey(snapshot.key), copy);
+      try {
+        await this.write(copy);
+      } catch (error) {
+        this.cache.delete(describeIndexKey(snapshot.key));
+        throw error;
+      }
+    });
+  }
+
+  private async cached(key: VectorIndexKey): Promise<VectorIndexSnapshot | null> {
+    const id = describeIndexKey(key);
+    if (!this.cache.has(id)) {
+      const snapshot = await this.read(key);
+      if (!snapshot) return null;
+      this.cache.set(id, snapshot);
+    }
+    return this.cache.get(id)!;
+  }
+
+  private async read(key: VectorIndexKey): Promise<VectorIndexSnapshot | null> {
+    try {
+      const response = await this.s3Client.send(new GetObjectCommand({ Bucket: this.bucket, Key: this.objectKey(key) }));
+      const operations: VectorStoreOperation[] = JSON.parse(await response.Body!.transformToString()).operations;
+      return applyOperations(emptySnapshot(key), operations);
+    } catch (error: any) {
+      if (error.name === 'NoSuchKey') {
+        return null;
+      }
+      throw new Error(`Failed to load vector index ${describeIndexKey(key)} from S3: ${error.message}`);
+    }
+  }
+
+  private async enqueue(key: VectorIndexKey, write: () => Promise<void>): Promise<void> {
+    const id = describeIndexKey(key);
+    const previous = this.writeQueues.get(id) || Promise.resolve();
+    const next = previous.then(write);
+    this.writeQueues.set(id, next.catch(() => undefined));
+    await next;
+  }
+
+  private async write(snapshot: VectorIndexSnapshot): Promise<void> {
+    const key = this.objectKey(snapshot.key);
+    try {
+      await this.s3Client.send(new PutObjectCommand({
+        Bucket: this.bucket,
+        Key: key,
+        Body: JSON.stringify({ key: snapshot.key, updatedAt: snapshot.updatedAt, operations: snapshotOperations(snapshot) }),
+        ContentType: 'application/json'
+      }));
+      console.log(`  ✅ Saved vector index to s3://${this.bucket}/${key}`);
+    } catch (error: any) {
+      throw new Error(`Failed to save vector index to S3: ${error.message}. Data not persisted.`);
+    }
+  }
+
+  private objectKey(key: VectorIndexKey): string {
+    return `${this.prefix}${safeSegment(key.project)}/${safeSegment(key.dataset)}.json`;
+  }
+}
+
+// VECTOR_STORE_BACKEND=memory|file|s3 (default: file), VECTOR_STORE_DIR=<directory>,
+// VECTOR_STORE_S3_PREFIX=<key prefix> (s3 uses S3_BUCKET_NAME)
+export function createVectorStore(): VectorStore {
+  const backend = (process.env.VECTOR_STORE_BACKEND || 'file').toLowerCase();
+
+  switch (backend) {
+    case 'memory':
+      return new InMemoryVectorStore();
+    case 'file':
+    case 'local':
+      return new LocalVectorStore(process.env.VECTOR_STORE_DIR || path.join(process.cwd(), 'data', 'vector-store'));
+    case 's3':
+      if (!process.env.S3_BUCKET_NAME) {
+        throw new Error('VECTOR_STORE_BACKEND=s3 requires S3_BUCKET_NAME');
+      }
+      return new S3VectorStore(process.env.S3_BUCKET_NAME, process.env.VECTOR_STORE_S3_PREFIX || 'vector-stores/');
+    default:
+      throw new Error(`Unknown VECTOR_STORE_BACKEND "${backend}". Expected "memory", "file" or "s3".`);
+  }
+}
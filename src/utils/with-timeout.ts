@@ -0,0 +1,54 @@
+// src/utils/with-timeout.ts
+// Bounded waits for operations that have no timeout option of their own
+
+export class TimeoutError extends Error {
+  constructor(message: string, public readonly timeoutMs: number) {
+    super(message);
+    this.name = 'TimeoutError';
+  }
+}
+
+// Rejects with a TimeoutError after timeoutMs; the timer is cleared once the promise settles so it
+// never keeps the process alive. The underlying operation is not cancelled.
+export async function withTimeout<T>(promise: Promise<T>, timeoutMs: number, message?: string): Promise<T> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () => reject(new TimeoutError(message || `Operation timed out after ${timeoutMs}ms`, timeoutMs)),
+      timeoutMs
+    );
+  });
+
+  try {
+    return await Promise.race([promise, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// The error an aborted operation rejects with: the abort reason when it is an Error
+export function abortError(signal: AbortSignal): Error {
+  return signal.reason instanceof Error ? signal.reason : new Error('Operation cancelled');
+}
+
+// Rejects as soon as the signal aborts, so callers stop waiting on work that has no abort hook of its own
+export async function withAbort<T>(promise: Promise<T>, signal?: AbortSignal | null): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+  if (signal.aborted) {
+    throw abortError(signal);
+  }
+
+  let onAbort: () => void = () => undefined;
+  const aborted = new Promise<never>((_, reject) => {
+    onAbort = () => reject(abortError(signal));
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+
+  try {
+    return await Promise.race([promise, aborted]);
+  } finally {
+    signal.removeEventListener('abort', onAbort);
+  }
+}
@@ -0,0 +1,69 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { estimateTokens, fitToTokenBudget, toolResultText } from '../../src/chatbot/conversation-context';
+import { LLMMessage } from '../../src/chatbot/llm-provider';
+import { silenceConsole } from '../helpers';
+
+silenceConsole();
+
+// 100 characters = 25 tokens
+function turn(role: string, label: string, extra: Partial<LLMMessage> = {}): LLMMessage {
+  return { role, content: label.padEnd(100, '.'), ...extra };
+}
+
+function toolTurn(label: string, url: string): LLMMessage {
+  return turn('assistant', label, {
+    toolCalls: [{ id: `call-${label}`, name: 'playwright_navigate', parameters: { url } }],
+    toolResults: [{ callId: `call-${label}`, success: true, result: [{ type: 'text', text: `Navigated to ${url}` }] }]
+  });
+}
+
+const labels = (messages: LLMMessage[]) => messages.map(message => (message.content as string).replace(/\.+$/, ''));
+
+describe('fitToTokenBudget', () => {
+  it('returns the conversation unchanged when it fits', () => {
+    const messages = [turn('user', 'u1'), turn('assistant', 'a1')];
+
+    assert.deepEqual(fitToTokenBudget(messages, 1000), { messages });
+  });
+
+  it('drops the oldest turns first and always keeps the latest message', () => {
+    const messages = [turn('user', 'u1'), turn('assistant', 'a1'), turn('user', 'u2'), turn('assistant', 'a2')];
+
+    assert.deepEqual(labels(fitToTokenBudget(messages, 50).messages), ['u2', 'a2']);
+    assert.deepEqual(labels(fitToTokenBudget(messages, 1).messages), ['a2']);
+  });
+
+  it('keeps system messages however small the budget', () => {
+    const messages = [turn('system', 'rules'), turn('user', 'u1'), turn('assistant', 'a1'), turn('user', 'u2')];
+
+    const { messages: kept } = fitToTokenBudget(messages, 50);
+
+    assert.deepEqual(labels(kept), ['rules', 'u2']);
+    assert.deepEqual(kept.map(message => message.role), ['system', 'user']);
+  });
+
+  it('keeps or drops a tool call together with its result', () => {
+    const messages = [turn('user', 'u1'), toolTurn('nav1', 'https://a.example'), turn('user', 'u2'), toolTurn('nav2', 'https://b.example')];
+    const budget = estimateTokens(messages[2]) + estimateTokens(messages[3]);
+
+    const { messages: kept, summary } = fitToTokenBudget(messages, budget);
+
+    assert.deepEqual(labels(kept), ['u2', 'nav2']);
+    for (const message of kept) {
+      assert.deepEqual((message.toolResults || []).map(result => result.callId), (message.toolCalls || []).map(call => call.id));
+    }
+    assert.match(summary!, /^Summary of 2 earlier messages/);
+    assert.match(summary!, /- Ran playwright_navigate\(\{"url":"https:\/\/a\.example"\}\) ✓/);
+    assert.match(summary!, /The browser was last navigated to https:\/\/a\.example\./);
+  });
+});
+
+describe('toolResultText', () => {
+  it('keeps the text of MCP content and truncates long results', () => {
+    const text = toolResultText({ callId: 'c', success: true, result: { content: [{ type: 'text', text: 'x'.repeat(5000) }, { type: 'image' }] } });
+
+    assert.ok(text.startsWith('x'.repeat(4000)));
+    assert.match(text, /\[truncated 1016 chars\]$/);
+  });
+});
@@ -0,0 +1,172 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { MCPSessionPool } from '../../src/chatbot/mcp-session-pool';
+import { MCPPlaywrightClient } from '../../src/chatbot/mcp-client';
+import { silenceConsole } from '../helpers';
+
+silenceConsole();
+
+// Stands in for an MCP server process: connects after a tick and records when it is closed
+class FakeClient {
+  connected = false;
+  disconnected = false;
+
+  constructor(private failConnect: () => boolean = () => false) {}
+
+  async connect(): Promise<void> {
+    await new Promise(resolve => setImmediate(resolve));
+    if (this.failConnect()) throw new Error('browser crashed');
+    this.connected = true;
+  }
+
+  disconnect(): void {
+    this.connected = false;
+    this.disconnected = true;
+  }
+
+  getTools() {
+    return [{ name: 'playwright_navigate', description: 'Navigate', inputSchema: {} }];
+  }
+
+  getStatus() {
+    return { connected: this.connected, reconnecting: false, reconnectAttempts: 0, lastHeartbeat: null, lastError: null, toolCount: 1 };
+  }
+}
+
+function createPool(maxSessions: number, leaseTimeoutMs = 1000, failConnect = () => false, probeRetryMs = 1000) {
+  const clients: FakeClient[] = [];
+  const pool = new MCPSessionPool(maxSessions, leaseTimeoutMs, () => {
+    const client = new FakeClient(failConnect);
+    clients.push(client);
+    return client as unknown as MCPPlaywrightClient;
+  }, probeRetryMs);
+  return { pool, clients };
+}
+
+describe('MCPSessionPool', () => {
+  it('hands the browser started up front to the first owner and exposes its tools', async () => {
+    const { pool, clients } = createPool(2);
+    await pool.start();
+    assert.deepEqual(pool.getTools().map(tool => tool.name), ['playwright_navigate']);
+
+    const lease = await pool.lease('chat-1');
+    assert.equal(lease.sessionId, 'browser-1');
+    assert.equal(clients.length, 1);
+    assert.equal(pool.getStatus().busy, 1);
+    pool.shutdown();
+  });
+
+  it('gives concurrent owners separate browsers up to the pool size', async () => {
+    const { pool } = createPool(2);
+    const [a, b] = await Promise.all([pool.lease('chat-1'), pool.lease('learning-1')]);
+
+    assert.notEqual(a.client, b.client);
+    assert.deepEqual(pool.getStatus().sessions.map(session => session.owner), ['chat-1', 'learning-1']);
+    pool.shutdown();
+  });
+
+  it('closes a released browser and starts a fresh one for the next waiter', async () => {
+    const { pool, clients } = createPool(1);
+    const first = await pool.lease('chat-1');
+    const next = pool.lease('chat-2');
+    assert.equal(pool.getStatus().waiting, 1);
+
+    first.release();
+    first.release();
+    const second = await next;
+
+    assert.equal(clients[0].disconnected, true);
+    assert.equal(second.sessionId, 'browser-2');
+    assert.notEqual(second.client, first.client);
+    assert.equal(pool.getStatus().sessions.length, 1);
+    pool.shutdown();
+  });
+
+  it('releases the session after withSession even when the work throws', async () => {
+    const { pool, clients } = createPool(1);
+
+    await assert.rejects(pool.withSession('run-1', async () => { throw new Error('step failed'); }), /step failed/);
+
+    assert.equal(clients[0].disconnected, true);
+    assert.equal(pool.getStatus().busy, 0);
+  });
+
+  it('times out and aborts waiters without handing them a browser', async () => {
+    const { pool } = createPool(1, 20);
+    const holder = await pool.lease('chat-1');
+
+    await assert.rejects(pool.lease('chat-2'), /No browser session available for chat-2 after 20ms/);
+
+    const controller = new AbortController();
+    const aborted = pool.lease('chat-3', { signal: controller.signal });
+    controller.abort(new Error('chat closed'));
+    await assert.rejects(aborted, /chat closed/);
+
+    assert.equal(pool.getStatus().waiting, 0);
+    holder.release();
+    pool.shutdown();
+  });
+
+  it('keeps a browser started for a waiter that gave up idle for the next owner', async () => {
+    const { pool, clients } = createPool(1);
+    const controller = new AbortController();
+    const abandoned = pool.lease('chat-1', { signal: controller.signal });
+    controller.abort();
+    await assert.rejects(abandoned);
+
+    await new Promise(resolve => setImmediate(resolve));
+    const lease = await pool.lease('chat-2');
+    assert.equal(lease.sessionId, 'browser-1');
+    assert.equal(clients.length, 1);
+    pool.shutdown();
+  });
+
+  it('rejects the waiter and frees the slot when a browser fails to start', async () => {
+    const { pool } = createPool(1, 1000, () => true);
+
+    await assert.rejects(pool.lease('chat-1'), /Failed to start browser session: browser crashed/);
+    assert.equal(pool.getStatus().sessions.length, 0);
+  });
+
+  it('stays ready while idle once a browser has started', async () => {
+    const { pool } = createPool(1);
+    assert.equal(pool.getStatus().ready, false);
+
+    await pool.start();
+    (await pool.lease('chat-1')).release();
+
+    const status = pool.getStatus();
+    assert.equal(status.sessions.length, 0);
+    assert.equal(status.connected, false);
+    assert.equal(status.ready, true);
+    pool.shutdown();
+  });
+
+  it('retries a failed startup probe until the tool list is loaded', async () => {
+    let failing = true;
+    const { pool } = createPool(1, 1000, () => failing, 10);
+
+    await assert.rejects(pool.start(), /browser crashed/);
+    assert.equal(pool.getStatus().ready, false);
+    assert.equal(pool.getStatus().lastSpawnError, 'browser crashed');
+    assert.deepEqual(pool.getTools(), []);
+
+    failing = false;
+    await new Promise(resolve => setTimeout(resolve, 50));
+    assert.equal(pool.getStatus().ready, true);
+    assert.deepEqual(pool.getTools().map(tool => tool.name), ['playwright_navigate']);
+    assert.equal(pool.getStatus().sessions[0].owner, null);
+    pool.shutdown();
+  });
+
+  it('rejects pending waiters on shutdown', async () => {
+    const { pool, clients } = createPool(1);
+    await pool.lease('chat-1');
+    const waiting = pool.lease('chat-2');
+
+    pool.shutdown();
+
+    await assert.rejects(waiting, /shutting down/);
+    assert.equal(clients[0].disconnected, true);
+  });
+});
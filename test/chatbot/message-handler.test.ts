@@ -0,0 +1,98 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { MessageHandler } from '../../src/chatbot/message-handler';
+import { BedrockResponse, ToolCall } from '../../src/chatbot/types';
+import { silenceConsole } from '../helpers';
+
+silenceConsole();
+
+const TOOLS = ['playwright_navigate', 'playwright_click', 'playwright_fill'].map(name => ({ name, description: name, inputSchema: { type: 'object', properties: {} } }));
+
+// Answers each model call with the next scripted response and records the tools it was offered
+function scriptedProvider(responses: BedrockResponse[]) {
+  const offeredTools: string[][] = [];
+  return {
+    offeredTools,
+    name: 'scripted',
+    modelId: 'scripted',
+    generateResponse: async (_messages: any[], tools: any[]) => {
+      offeredTools.push(tools.map(tool => tool.name));
+      return responses.shift() || { content: 'done', finishReason: 'stop' as const };
+    }
+  };
+}
+
+function fakePool() {
+  const executed: string[] = [];
+  const client = { callTools: async (calls: ToolCall[]) => calls.map(call => { executed.push(call.name); return { callId: call.id, success: true, result: 'ok' }; }) };
+  return { executed, pool: { getTools: () => TOOLS, lease: async () => ({ client, release: () => undefined }) } };
+}
+
+function planCall(steps: any[]): BedrockResponse {
+  return { content: '', toolCalls: [{ id: 'plan-1', name: 'propose_plan', parameters: { steps } }], finishReason: 'tool_calls' };
+}
+
+describe('MessageHandler plan proposals', () => {
+  const original = process.env.LLM_PROVIDER;
+  before(() => { process.env.LLM_PROVIDER = 'bedrock'; });
+  after(() => {
+    if (original === undefined) delete process.env.LLM_PROVIDER;
+    else process.env.LLM_PROVIDER = original;
+  });
+
+  it('answers a plain request with one model call that is offered propose_plan', async () => {
+    const provider = scriptedProvider([{ content: 'Hello!', finishReason: 'stop' }]);
+    const { pool } = fakePool();
+    const handler = new MessageHandler(provider as any, pool as any);
+
+    const reply = await handler.processMessage('hi there');
+
+    assert.equal(reply.content, 'Hello!');
+    assert.deepEqual(provider.offeredTools, [[...TOOLS.map(tool => tool.name), 'propose_plan']]);
+  });
+
+  it('holds a proposed plan for confirmation without running tools, then runs it', async () => {
+    const provider = scriptedProvider([
+      planCall([
+        { description: 'Open the site', tool: 'playwright_navigate', parameters: { url: 'https://example.com' } },
+        { description: 'Search', tool: 'playwright_fill', parameters: { selector: '#q', value: 'salt and pepper' } }
+      ]),
+      { content: 'Searched.', finishReason: 'stop' }
+    ]);
+    const { pool, executed } = fakePool();
+    const handler = new MessageHandler(provider as any, pool as any);
+
+    const reply = await handler.processMessage('open example.com and search for salt and pepper');
+
+    assert.equal(provider.offeredTools.length, 1);
+    assert.deepEqual(executed, []);
+    assert.equal(reply.plan!.source, 'llm');
+    assert.equal(reply.plan!.request, 'open example.com and search for salt and pepper');
+    assert.deepEqual(reply.plan!.steps.map(step => step.tool), ['playwright_navigate', 'playwright_fill']);
+    // The proposal's tool_use is answered, so the next request to the model stays well-formed
+    const proposal = handler.getConversationHistory().find(msg => msg.toolCalls?.[0]?.name === 'propose_plan')!;
+    assert.equal(proposal.toolResults![0].success, true);
+
+    const final = await handler.confirmPlan(reply.plan!.id);
+
+    assert.deepEqual(executed, ['playwright_navigate', 'playwright_fill']);
+    assert.match(final.content as string, /^Searched\./);
+  });
+
+  it('reports an unusable plan back to the model and keeps going', async () => {
+    const provider = scriptedProvider([
+      planCall([{ description: 'Open', tool: 'playwright_navigate', parameters: {} }, { description: 'Dance', tool: 'playwright_dance', parameters: {} }]),
+      { content: 'Done directly.', finishReason: 'stop' }
+    ]);
+    const { pool } = fakePool();
+    const handler = new MessageHandler(provider as any, pool as any);
+
+    const reply = await handler.processMessage('open the site and dance');
+
+    assert.equal(reply.plan, undefined);
+    assert.equal(reply.content, 'Done directly.');
+    assert.equal(handler.getPendingPlan(), null);
+    const proposal = handler.getConversationHistory().find(msg => msg.toolCalls?.[0]?.name === 'propose_plan')!;
+    assert.match(proposal.toolResults![0].error!, /Unknown tool in plan step: playwright_dance/);
+  });
+});
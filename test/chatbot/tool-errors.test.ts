@@ -0,0 +1,44 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { classifyToolError, describeToolError, ToolCallError } from '../../src/chatbot/tool-errors';
+import { silenceConsole } from '../helpers';
+
+silenceConsole();
+
+describe('classifyToolError', () => {
+  it('recognises common Playwright and MCP failures', () => {
+    const cases: Array<[string, string, string]> = [
+      ['playwright_click', 'Timeout 30000ms exceeded. waiting for locator(\'#submit\')', 'selector'],
+      ['playwright_fill', 'strict mode violation: locator("input") resolved to 3 elements', 'selector'],
+      ['playwright_select', 'Error: Element is not a <select> element', 'selector'],
+      ['playwright_click', 'Timeout 5000ms exceeded.', 'timeout'],
+      ['playwright_navigate', 'page.goto: net::ERR_NAME_NOT_RESOLVED at https://nowhere.invalid', 'navigation'],
+      ['playwright_evaluate', 'ReferenceError: foo is not defined', 'evaluation'],
+      ['playwright_click', 'Target page, context or browser has been closed', 'connection'],
+      ['playwright_screenshot', 'MCP error: Not connected', 'connection']
+    ];
+
+    for (const [toolName, message, expected] of cases) {
+      assert.equal(classifyToolError(toolName, message), expected, message);
+    }
+  });
+
+  it('falls back to the phase of the tool, then to unknown', () => {
+    assert.equal(classifyToolError('playwright_navigate', 'Something odd happened'), 'navigation');
+    assert.equal(classifyToolError('playwright_evaluate', 'Something odd happened'), 'evaluation');
+    assert.equal(classifyToolError('playwright_click', 'Something odd happened'), 'unknown');
+  });
+});
+
+describe('describeToolError', () => {
+  it('labels the category and keeps the original message', () => {
+    const result = { callId: 'c', success: false, result: null, error: 'waiting for selector "#x"', errorType: 'selector' as const };
+
+    assert.equal(describeToolError(result), 'Selector not found: waiting for selector "#x"');
+    assert.equal(describeToolError({ callId: 'c', success: false, result: null }), 'Tool error: Tool execution failed');
+
+    const error = new ToolCallError('playwright_click', result);
+    assert.equal(error.errorType, 'selector');
+    assert.equal(error.message, 'Selector not found: waiting for selector "#x"');
+  });
+});
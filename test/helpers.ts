@@ -0,0 +1,12 @@
+import { beforeEach, afterEach, mock } from 'node:test';
+
+// The code under test logs progress freely; on Node 20 that output can interleave with the runner's own
+// stream from the test process and fail the file, so it is muted for every test in the calling file
+export function silenceConsole(): void {
+  beforeEach(() => {
+    for (const method of ['log', 'info', 'warn', 'error'] as const) {
+      mock.method(console, method, () => undefined);
+    }
+  });
+  afterEach(() => mock.restoreAll());
+}
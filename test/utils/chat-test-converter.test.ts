@@ -0,0 +1,76 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { draftTestFromChat, buildTestCaseFromChat } from '../../src/utils/chat-test-converter';
+import { ChatMessage, ToolCall } from '../../src/chatbot/types';
+import { silenceConsole } from '../helpers';
+
+silenceConsole();
+
+let nextId = 0;
+
+function message(role: 'user' | 'assistant', content: string, calls: Array<[ToolCall['name'], Record<string, any>, boolean?]> = []): ChatMessage {
+  const toolCalls = calls.map(([name, parameters]) => ({ id: `call-${++nextId}`, name, parameters }));
+  return {
+    id: `msg-${++nextId}`,
+    role,
+    content,
+    timestamp: new Date(),
+    ...(calls.length > 0 ? {
+      toolCalls,
+      toolResults: toolCalls.map((call, i) => ({ callId: call.id, success: calls[i][2] !== false, result: 'ok' }))
+    } : {})
+  };
+}
+
+const session = (): ChatMessage[] => [
+  message('user', 'Search the case list for Smith'),
+  message('assistant', 'Opening the site', [
+    ['playwright_navigate', { url: 'https://cases.example.com' }],
+    ['playwright_click', { selector: '#missing' }, false],
+    ['playwright_fill', { selector: '#q', value: 'Smith' }],
+    ['playwright_press_key', { key: 'Enter' }],
+    ['playwright_screenshot', { name: 'after-search' }]
+  ]),
+  message('assistant', 'The table now shows 3 results for Smith.'),
+  message('assistant', 'Details', [['playwright_navigate', { url: 'https://cases.example.com/case/1' }]])
+];
+
+describe('draftTestFromChat', () => {
+  it('keeps the successful browser actions in order, starting from the first page visited', () => {
+    const draft = draftTestFromChat(session());
+
+    assert.equal(draft.websiteUrl, 'https://cases.example.com');
+    assert.deepEqual(draft.steps.map(step => [step.action, step.selector, step.value ?? step.url]), [
+      ['fill', '#q', 'Smith'],
+      ['press', undefined, 'Enter'],
+      ['navigate', undefined, 'https://cases.example.com/case/1']
+    ]);
+    assert.deepEqual(draft.selectors, ['#q']);
+    assert.deepEqual(draft.suggestedAssertions, ['Result count equals 3']);
+  });
+});
+
+describe('buildTestCaseFromChat', () => {
+  it('turns a confirmed count assertion into a validate step', () => {
+    const testCase = buildTestCaseFromChat(session(), {
+      name: 'Search for Smith',
+      assertions: ['Result count equals 3', '  Smith is listed first  ', ''],
+      priority: 'high',
+      tags: ['search']
+    });
+
+    assert.equal(testCase.websiteUrl, 'https://cases.example.com');
+    assert.equal(testCase.expectedCount, 3);
+    assert.deepEqual(testCase.steps[testCase.steps.length - 1], { action: 'validate', expectedCount: 3, description: 'Validate result count matches expected 3' });
+    assert.deepEqual(testCase.expectedResults, ['Result count equals 3', 'Smith is listed first']);
+    assert.equal(testCase.description, 'Recorded from chat: Search for Smith');
+    assert.equal(testCase.priority, 'high');
+    assert.deepEqual(testCase.tags, ['chat-recorded', 'search']);
+  });
+
+  it('refuses a session without successful browser actions', () => {
+    const history = [message('user', 'hello'), message('assistant', 'Trying', [['playwright_click', { selector: '#x' }, false]])];
+
+    assert.throws(() => buildTestCaseFromChat(history, { name: 'Nothing', assertions: [] }), /No successful browser actions/);
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  HashedNGramEmbeddingProvider,
+  TitanEmbeddingProvider,
+  createEmbeddingProvider,
+  isCompatibleEmbedding
+} from '../../src/utils/embedding-providers';
+import { InMemoryVectorStore } from '../../src/utils/vector-store';
+import { VectorRAGClient } from '../../src/utils/vector-rag-client';
+import { silenceConsole } from '../helpers';
+
+silenceConsole();
+
+function cosine(a: number[], b: number[]): number {
+  return a.reduce((sum, value, i) => sum + value * b[i], 0);
+}
+
+describe('HashedNGramEmbeddingProvider', () => {
+  const embeddings = new HashedNGramEmbeddingProvider(256);
+
+  it('returns deterministic unit vectors of the configured size', async () => {
+    const vector = await embeddings.embed('Case status is Open in Ohio');
+
+    assert.equal(vector.length, 256);
+    assert.ok(Math.abs(Math.hypot(...vector) - 1) < 1e-9);
+    assert.deepEqual(await embeddings.embed('Case status is Open in Ohio'), vector);
+  });
+
+  it('places related text closer than unrelated text', async () => {
+    const query = await embeddings.embed('open cases in ohio');
+    const related = await embeddings.embed('case_id 17, state Ohio, status Open');
+    const unrelated = await embeddings.embed('invoice total paid by credit card');
+
+    assert.ok(cosine(query, related) > cosine(query, unrelated));
+  });
+
+  it('rejects invalid dimensions', () => {
+    assert.throws(() => new HashedNGramEmbeddingProvider(0), /Invalid embedding dimensions "0"/);
+  });
+});
+
+describe('TitanEmbeddingProvider', () => {
+  it('embeds through the LLM provider with truncated input', async () => {
+    const bodies: any[] = [];
+    const provider = { name: 'bedrock', invokeModel: async (params: any) => { bodies.push(JSON.parse(params.body)); return { embedding: [0.1, 0.2] }; } };
+    const titan = new TitanEmbeddingProvider(provider as any, 'amazon.titan-embed-text-v2:0');
+
+    assert.deepEqual(await titan.embed('x'.repeat(9000)), [0.1, 0.2]);
+    assert.equal(bodies[0].inputText.length, 8000);
+  });
+
+  it('fails on a response without a vector', async () => {
+    const titan = new TitanEmbeddingProvider({ name: 'bedrock', invokeModel: async () => ({}) } as any, 'titan');
+
+    await assert.rejects(titan.embed('x'), /Invalid embedding response/);
+  });
+
+  it('names the LLM provider behind the vectors, looking through cassettes', () => {
+    assert.equal(new TitanEmbeddingProvider({ name: 'mock' } as any, 'titan').backend, 'mock');
+    assert.equal(new TitanEmbeddingProvider({ name: 'bedrock+cassette-replay' } as any, 'titan').backend, 'bedrock');
+  });
+});
+
+describe('embedding selection', () => {
+  const original = { ...process.env };
+
+  afterEach(() => {
+    for (const name of ['EMBEDDING_PROVIDER', 'EMBEDDING_DIMENSIONS']) {
+      if (original[name] === undefined) delete process.env[name];
+      else process.env[name] = original[name];
+    }
+  });
+
+  it('creates the embedder named by EMBEDDING_PROVIDER', () => {
+    process.env.EMBEDDING_PROVIDER = 'local';
+    process.env.EMBEDDING_DIMENSIONS = '128';
+    assert.equal(createEmbeddingProvider({} as any).dimensions, 128);
+
+    process.env.EMBEDDING_PROVIDER = 'openai';
+    assert.throws(() => createEmbeddingProvider({} as any), /Unknown EMBEDDING_PROVIDER "openai"/);
+  });
+
+  it('treats another model or vector size as incompatible', () => {
+    const signature = { provider: 'local', modelId: 'hashed-ngram-v1', dimensions: 256 };
+
+    assert.equal(isCompatibleEmbedding(signature, new HashedNGramEmbeddingProvider(256)), true);
+    assert.equal(isCompatibleEmbedding(signature, new HashedNGramEmbeddingProvider(512)), false);
+    assert.equal(isCompatibleEmbedding(signature, new TitanEmbeddingProvider({ name: 'bedrock' } as any, 'titan')), false);
+  });
+
+  it('treats Titan vectors from the mock provider as incompatible with Bedrock', () => {
+    const mockTitan = new TitanEmbeddingProvider({ name: 'mock' } as any, 'amazon.titan-embed-text-v2:0');
+    const bedrockTitan = new TitanEmbeddingProvider({ name: 'bedrock' } as any, 'amazon.titan-embed-text-v2:0');
+    const signature = { provider: 'titan', modelId: 'amazon.titan-embed-text-v2:0', dimensions: 1024, backend: 'mock' };
+
+    assert.equal(isCompatibleEmbedding(signature, mockTitan), true);
+    assert.equal(isCompatibleEmbedding(signature, bedrockTitan), false);
+    // Indexes saved before the backend was recorded can't be trusted either
+    assert.equal(isCompatibleEmbedding({ ...signature, backend: undefined }, bedrockTitan), false);
+  });
+
+  it('rebuilds an index that was built with a different embedder', async () => {
+    const store = new InMemoryVectorStore();
+    const files = [{ name: 'cases.tsv', content: 'case_id\tstate\n1\tOhio' }];
+
+    const first = new VectorRAGClient({} as any, store, new HashedNGramEmbeddingProvider(64));
+    await first.useIndex('site');
+    await first.indexTSVData(files);
+
+    const second = new VectorRAGClient({} as any, store, new HashedNGramEmbeddingProvider(128));
+    await second.useIndex('site');
+    assert.equal((await store.load({ project: 'site', dataset: 'default' }))!.entries.size, 0);
+
+    await second.indexTSVData(files);
+    const snapshot = (await store.load({ project: 'site', dataset: 'default' }))!;
+    assert.equal(snapshot.embedding!.dimensions, 128);
+    assert.equal(Array.from(snapshot.entries.values())[0].embedding.length, 128);
+  });
+});
@@ -0,0 +1,169 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { toFeature, toFeatureFiles, fromFeature } from '../../src/utils/gherkin-converter';
+import { TestCase } from '../../src/models';
+import { silenceConsole } from '../helpers';
+
+silenceConsole();
+
+function testCase(overrides: Partial<TestCase> = {}): TestCase {
+  return {
+    id: 'tc-1',
+    name: 'Filter by state',
+    description: 'Filters the case table',
+    category: 'filtering',
+    priority: 'high',
+    status: 'ready',
+    steps: [],
+    expectedResults: [],
+    tags: ['smoke'],
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides
+  } as TestCase;
+}
+
+describe('toFeature', () => {
+  it('writes a Scenario Outline with Examples when a case has several test values', () => {
+    const feature = toFeature(testCase({
+      websiteUrl: 'https://example.com',
+      dataField: 'case state',
+      testValues: ['Ohio', 'New | York'],
+      steps: [
+        { action: 'click', selector: '#state', description: 'Open filter' },
+        { action: 'select', value: 'Ohio', description: 'Pick Ohio' },
+        { action: 'validate', expectedCount: 3, description: 'Count rows' }
+      ],
+      expectedResults: ['Result count equals 3', 'Only Ohio cases are listed']
+    }));
+
+    assert.equal(feature, [
+      '@priority:high @category:filtering @field:case%20state @smoke',
+      'Feature: Filter by state',
+      '  Filters the case table',
+      '',
+      '  @id:tc-1',
+      '  Scenario Outline: Filter by state',
+      '    Given I am on "https://example.com"',
+      '    When I click "#state"',
+      '    And I select "<value>" in "case state"',
+      '    Then results equal 3',
+      '    And Only Ohio cases are listed',
+      '',
+      '    Examples:',
+      '      | value |',
+      '      | Ohio |',
+      '      | New \\| York |',
+      ''
+    ].join('\n'));
+  });
+
+  it('names feature files after the case', () => {
+    assert.deepEqual(toFeatureFiles([testCase({ name: 'Filter: by State!' })]).map(file => file.path), ['filter-by-state-tc-1.feature']);
+  });
+});
+
+describe('fromFeature', () => {
+  it('round-trips an exported case', () => {
+    const original = testCase({
+      websiteUrl: 'https://example.com',
+      dataField: 'state',
+      testValues: ['Ohio', 'Texas'],
+      steps: [
+        'Wait for the table to load',
+        { action: 'click', selector: '#state', description: 'Open filter' },
+        { action: 'select', value: 'Ohio', description: 'Pick Ohio' },
+        { action: 'press', selector: '#search', value: 'Enter', description: 'Submit' },
+        { action: 'validate', selector: '#results', expectedCount: 3, description: 'Count rows' }
+      ],
+      expectedResults: ['Result count equals 3', 'Only Ohio cases are listed']
+    });
+
+    const [imported] = fromFeature(toFeature(original));
+
+    assert.equal(imported.id, 'tc-1');
+    assert.equal(imported.priority, 'high');
+    assert.equal(imported.category, 'filtering');
+    assert.equal(imported.dataField, 'state');
+    assert.equal(imported.websiteUrl, 'https://example.com');
+    assert.equal(imported.expectedCount, 3);
+    assert.deepEqual(imported.testValues, ['Ohio', 'Texas']);
+    assert.deepEqual(imported.tags, ['smoke']);
+    assert.deepEqual(imported.expectedResults, original.expectedResults);
+    assert.deepEqual(imported.steps.map(step => typeof step === 'string' ? step : { ...step, description: undefined }), [
+      'Wait for the table to load',
+      { action: 'click', selector: '#state', description: undefined },
+      { action: 'select', value: 'Ohio', description: undefined },
+      { action: 'press', selector: '#search', value: 'Enter', description: undefined },
+      { action: 'validate', selector: '#results', expectedCount: 3, description: undefined }
+    ]);
+  });
+
+  it('reads hand-written features with several scenarios, And/But and comments', () => {
+    const cases = fromFeature([
+      '@priority:low',
+      'Feature: Case search',
+      '  Analysts search the case list',
+      '',
+      '  # Free text search',
+      '  @id:search-1',
+      '  Scenario: Search by name',
+      '    Given I am on "https://example.com"',
+      '    When I fill "input[name=q]" with "Smith"',
+      '    And I press "Enter"',
+      '    Then results equal 2',
+      '    But no archived cases are shown',
+      '',
+      '  Scenario: Filter by status',
+      '    When I select "Open" in "#status"',
+      '    Then the table shows open cases'
+    ].join('\n'));
+
+    assert.deepEqual(cases.map(item => [item.id.startsWith('test-') ? 'generated' : item.id, item.name, item.priority]), [
+      ['search-1', 'Search by name', 'low'],
+      ['generated', 'Filter by status', 'low']
+    ]);
+    assert.equal(cases[0].description, 'Analysts search the case list');
+    assert.deepEqual(cases[0].expectedResults, ['Result count equals 2', 'no archived cases are shown']);
+    assert.deepEqual(cases[1].steps, [{ action: 'select', selector: '#status', value: 'Open', description: 'Select value "Open"' }]);
+    assert.deepEqual(cases[1].testValues, ['Open']);
+    assert.deepEqual(cases[1].expectedResults, ['the table shows open cases']);
+  });
+
+  it('keeps a feature-level @id off other scenarios and lets scenario tags win', () => {
+    const cases = fromFeature([
+      '@id:legacy-1 @priority:low @category:search @regression',
+      'Feature: Case search',
+      '',
+      '  @priority:critical @smoke',
+      '  Scenario: Search by name',
+      '    When I fill "#q" with "Smith"',
+      '',
+      '  @id:status-1',
+      '  Scenario: Filter by status',
+      '    When I select "Open" in "#status"'
+    ].join('\n'));
+
+    assert.ok(cases[0].id.startsWith('test-'));
+    assert.equal(cases[1].id, 'status-1');
+    assert.deepEqual(cases.map(item => item.priority), ['critical', 'low']);
+    assert.deepEqual(cases.map(item => item.category), ['search', 'search']);
+    assert.deepEqual(cases.map(item => item.tags), [['regression', 'smoke'], ['regression']]);
+  });
+
+  it('still reads the @id of a single-scenario feature tagged at feature level', () => {
+    const [imported] = fromFeature(['@id:tc-9', 'Feature: Old export', '  Scenario: Old export', '    When I click "#go"'].join('\n'));
+
+    assert.equal(imported.id, 'tc-9');
+  });
+
+  it('round-trips tag values with spaces, underscores and percent signs', () => {
+    const [imported] = fromFeature(toFeature(testCase({
+      dataField: 'case state',
+      tags: ['needs review', 'case_id', '100% match']
+    })));
+
+    assert.equal(imported.dataField, 'case state');
+    assert.deepEqual(imported.tags, ['needs review', 'case_id', '100% match']);
+  });
+});
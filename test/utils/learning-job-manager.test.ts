@@ -0,0 +1,92 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { LearningJobManager, fingerprintTSVFiles } from '../../src/utils/learning-job-manager';
+import { TestStorage } from '../../src/utils/storage';
+import { InMemoryStorageBackend } from '../../src/utils/storage-backends';
+import { silenceConsole } from '../helpers';
+
+silenceConsole();
+
+// Stands in for the Playwright orchestrator: reports one step, then returns fixed learning results
+function fakeOrchestrator(run?: (signal: AbortSignal) => Promise<void>): any {
+  return {
+    async performCompleteLearning(websiteUrl: string, tsvFiles: any[], options: { signal: AbortSignal; onStep: (entry: any) => void }) {
+      options.onStep({ step: 1, message: `Learning ${websiteUrl}` });
+      await (run ? run(options.signal) : new Promise(resolve => setTimeout(resolve, 5)));
+      return {
+        success: true,
+        analysis: { ui: { dropdowns: [] } },
+        executionTrace: [{ step: 1 }],
+        llmResponses: [{ prompt: 'p' }],
+        lastLLMResponse: 'r'
+      };
+    }
+  };
+}
+
+const tsvFiles = [{ name: 'cases.tsv', content: 'id\tname\n1\tA' }];
+
+describe('fingerprintTSVFiles', () => {
+  it('ignores upload order but not names or content', () => {
+    const a = { name: 'a.tsv', content: 'x' };
+    const b = { name: 'b.tsv', content: 'y' };
+
+    assert.equal(fingerprintTSVFiles([a, b]), fingerprintTSVFiles([b, a]));
+    assert.notEqual(fingerprintTSVFiles([a]), fingerprintTSVFiles([{ name: 'a.tsv', content: 'z' }]));
+    assert.notEqual(fingerprintTSVFiles([a]), fingerprintTSVFiles([{ name: 'c.tsv', content: 'x' }]));
+  });
+});
+
+describe('LearningJobManager learning runs', () => {
+  it('stores each completed job as the next version for its website', async () => {
+    const storage = new TestStorage(new InMemoryStorageBackend());
+    const manager = new LearningJobManager(fakeOrchestrator(), storage);
+
+    const first = await manager.waitForJob(manager.start('https://a.example', tsvFiles).id);
+    const other = await manager.waitForJob(manager.start('https://b.example', tsvFiles).id);
+    const second = await manager.waitForJob(manager.start('https://a.example', tsvFiles).id);
+
+    const versions = async (id?: string) => (await storage.getLearningRun(id!))!.version;
+    assert.equal(await versions(first.learningRunId), 1);
+    assert.equal(await versions(other.learningRunId), 1);
+    assert.equal(await versions(second.learningRunId), 2);
+    assert.equal((await storage.getLatestLearningRun('https://a.example'))!.id, second.learningRunId);
+  });
+
+  it('keeps the trace and LLM calls beside the learning results, with the TSV fingerprint', async () => {
+    const storage = new TestStorage(new InMemoryStorageBackend());
+    const manager = new LearningJobManager(fakeOrchestrator(), storage);
+
+    const job = await manager.waitForJob(manager.start('https://a.example', tsvFiles).id);
+    const learningRun = (await storage.getLearningRun(job.learningRunId!))!;
+
+    assert.equal(job.status, 'completed');
+    assert.equal(learningRun.jobId, job.id);
+    assert.equal(learningRun.tsvFingerprint, fingerprintTSVFiles(tsvFiles));
+    assert.deepEqual(learningRun.tsvFiles, [{ name: 'cases.tsv', size: tsvFiles[0].content.length }]);
+    assert.deepEqual(learningRun.executionTrace, [{ step: 1 }]);
+    assert.deepEqual(learningRun.llmCalls, [{ prompt: 'p' }]);
+    assert.equal('executionTrace' in learningRun.learningResults, false);
+    assert.equal('lastLLMResponse' in learningRun.learningResults, false);
+  });
+
+  it('settles a cancelled job only after its work has stopped and stores no run', async () => {
+    const storage = new TestStorage(new InMemoryStorageBackend());
+    let stopped = false;
+    const manager = new LearningJobManager(fakeOrchestrator(signal => new Promise(resolve => {
+      signal.addEventListener('abort', () => setTimeout(() => { stopped = true; resolve(); }, 10));
+    })), storage);
+
+    const job = manager.start('https://a.example', tsvFiles);
+    const queued = manager.start('https://a.example', tsvFiles);
+    manager.cancel(queued.id);
+    manager.cancel(job.id);
+    assert.equal(job.status, 'running');
+
+    const finished = await manager.waitForJob(job.id);
+    assert.equal(stopped, true);
+    assert.equal(finished.status, 'cancelled');
+    assert.equal(queued.status, 'cancelled');
+    assert.deepEqual(await storage.getAllLearningRuns(), []);
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { inflateRawSync } from 'zlib';
+import { PlaywrightSpecExporter } from '../../src/utils/playwright-spec-exporter';
+import { createZipArchive, crc32 } from '../../src/utils/zip-archive';
+import { TestCase } from '../../src/models';
+import { silenceConsole } from '../helpers';
+
+silenceConsole();
+
+// Reads entries back through the central directory, checking each CRC
+function readZip(zip: Buffer): Map<string, string> {
+  const files = new Map<string, string>();
+  const end = zip.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+  const count = zip.readUInt16LE(end + 10);
+  let offset = zip.readUInt32LE(end + 16);
+
+  for (let i = 0; i < count; i++) {
+    assert.equal(zip.readUInt32LE(offset), 0x02014b50);
+    const checksum = zip.readUInt32LE(offset + 16);
+    const compressedSize = zip.readUInt32LE(offset + 20);
+    const nameLength = zip.readUInt16LE(offset + 28);
+    const localOffset = zip.readUInt32LE(offset + 42);
+    const name = zip.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+    const dataStart = localOffset + 30 + zip.readUInt16LE(localOffset + 26) + zip.readUInt16LE(localOffset + 28);
+    const data = inflateRawSync(zip.subarray(dataStart, dataStart + compressedSize));
+    assert.equal(crc32(data), checksum, `CRC of ${name}`);
+    files.set(name, data.toString('utf8'));
+    offset += 46 + nameLength;
+  }
+  return files;
+}
+
+function testCase(overrides: Partial<TestCase> = {}): TestCase {
+  return {
+    id: 'tc-1',
+    name: 'Filter by state',
+    description: 'Filters the case table',
+    category: 'filtering',
+    priority: 'high',
+    steps: [],
+    expectedResults: [],
+    tags: [],
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    status: 'pending',
+    ...overrides
+  } as TestCase;
+}
+
+describe('zip archive', () => {
+  it('matches the standard CRC-32 check value', () => {
+    assert.equal(crc32(Buffer.from('123456789')), 0xcbf43926);
+  });
+
+  it('round-trips UTF-8 paths and content with forward slashes', () => {
+    const zip = createZipArchive([
+      { path: 'bundle\\tests\\ünïcode.spec.ts', content: 'const x = "✓";' },
+      { path: 'bundle/empty.txt', content: '' }
+    ]);
+
+    assert.deepEqual(Array.from(readZip(zip)), [
+      ['bundle/tests/ünïcode.spec.ts', 'const x = "✓";'],
+      ['bundle/empty.txt', '']
+    ]);
+  });
+});
+
+describe('PlaywrightSpecExporter.toSpec', () => {
+  const exporter = new PlaywrightSpecExporter(os.tmpdir());
+
+  it('renders stored steps as test.step blocks', () => {
+    const spec = exporter.toSpec(testCase({
+      websiteUrl: 'https://example.com',
+      steps: [
+        'Open the state filter',
+        { action: 'click', selector: '#state', description: 'Open filter' },
+        { action: 'select', value: 'Ohio', description: 'Pick "Ohio"' },
+        { action: 'fill', selector: 'input[name="q"]', value: 'abc', description: 'Search' },
+        { action: 'press', value: 'Enter', description: 'Submit' },
+        { action: 'validate', selector: '#results', expectedCount: 4, description: 'Count rows' }
+      ]
+    }));
+
+    assert.match(spec, /^\/\/ Generated by UniversalTestAgent from test case tc-1/);
+    assert.match(spec, /test\("Filter by state", async \(\{ page \}\) => \{\n  await page.goto\("https:\/\/example.com"\);\n  \/\/ Open the state filter/);
+    assert.ok(spec.includes(`await test.step("Pick \\"Ohio\\"", async () => {\n    await page.getByText("Ohio", { exact: true }).first().click();`));
+    assert.ok(spec.includes(`await page.locator("input[name=\\"q\\"]").fill("abc");`));
+    assert.ok(spec.includes(`await page.keyboard.press("Enter");`));
+    assert.ok(spec.includes(`await expect(page.locator("#results tbody tr")).toHaveCount(4);`));
+  });
+
+  it('derives steps from selectors and test values when none were stored', () => {
+    const spec = exporter.toSpec(testCase({ selectors: ['#status'], testValues: ['Open'], expectedCount: 2 }));
+
+    assert.ok(spec.includes(`await page.locator("#status").first().click();`));
+    assert.ok(spec.includes(`await page.getByText("Open", { exact: true }).first().click();`));
+    assert.ok(spec.includes(`await expect(page.locator("table tbody tr")).toHaveCount(2);`));
+  });
+});
+
+describe('PlaywrightSpecExporter bundles', () => {
+  let exportsDir: string;
+
+  before(() => {
+    exportsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'playwright-export-'));
+  });
+
+  after(() => {
+    fs.rmSync(exportsDir, { recursive: true, force: true });
+  });
+
+  it('writes a runnable project and zips it under the bundle name', async () => {
+    const exporter = new PlaywrightSpecExporter(exportsDir);
+    const { bundle, directory, files } = await exporter.exportProject([testCase(), testCase({ id: 'tc-2', name: 'Search by name' })]);
+
+    assert.deepEqual(files.map(file => file.path.split(path.sep).join('/')), [
+      'package.json',
+      'playwright.config.ts',
+      'tests/filter-by-state-tc-1.spec.ts',
+      'tests/search-by-name-tc-2.spec.ts'
+    ]);
+    assert.ok(fs.existsSync(path.join(directory, 'tests', 'search-by-name-tc-2.spec.ts')));
+
+    const entries = readZip((await exporter.zipBundle(bundle))!);
+    assert.deepEqual(Array.from(entries.keys()).sort(), [
+      `${bundle}/package.json`,
+      `${bundle}/playwright.config.ts`,
+      `${bundle}/tests/filter-by-state-tc-1.spec.ts`,
+      `${bundle}/tests/search-by-name-tc-2.spec.ts`
+    ]);
+    assert.equal(entries.get(`${bundle}/tests/filter-by-state-tc-1.spec.ts`), files[2].content);
+
+    const packageJson = JSON.parse(entries.get(`${bundle}/package.json`)!);
+    assert.equal(packageJson.scripts.test, 'playwright test');
+    assert.ok(packageJson.devDependencies['@playwright/test']);
+  });
+
+  it('refuses bundle names it did not produce', async () => {
+    const exporter = new PlaywrightSpecExporter(exportsDir);
+
+    assert.equal(await exporter.zipBundle('../etc'), null);
+    assert.equal(await exporter.zipBundle('playwright-2024-01-01T00-00-00-000Z'), null);
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { detectSiteDrift, renderDriftReportHtml } from '../../src/utils/site-drift-detector';
+import { LearningRun } from '../../src/models';
+import { silenceConsole } from '../helpers';
+
+silenceConsole();
+
+// One entry as PlaywrightLearningOrchestrator.mapDatabaseToRealUI stores it from the LLM's answer
+function llmMapping(tsvField: string, uiElement: string, uiSelector: string, testType = 'filter') {
+  return {
+    tsvField,
+    tsvFile: 'cases.tsv',
+    uiElement,
+    uiSelector,
+    confidence: 0.9,
+    reasoning: `${uiElement} lists the ${tsvField} values`,
+    sampleValues: ['Open'],
+    testType
+  };
+}
+
+// The shape stored under learningResults.analysis.mapping
+function mappingAnalysis(mappings: any[], missingMappings: string[] = []) {
+  return { mappings, testCases: [], validationRules: [], missingMappings, dataRelationships: [] };
+}
+
+function learningRun(id: string, version: number, ui: any, mapping: any = {}, tsvFingerprint = 'tsv-1'): LearningRun {
+  return {
+    id,
+    version,
+    websiteUrl: 'https://example.com',
+    tsvFingerprint,
+    tsvFiles: [],
+    createdAt: new Date(),
+    learningResults: { analysis: { ui, mapping } } as any,
+    executionTrace: [],
+    llmCalls: []
+  };
+}
+
+const base = learningRun('learning-1', 1, {
+  dropdowns: [
+    { text: 'Case Status', selector: '#status', allOptions: ['Open', 'Closed'] },
+    { text: 'State', selector: '#state', allOptions: ['Ohio', 'Texas', 'Utah', 'Iowa', 'Maine'] },
+    { text: 'Region', selector: '#region', allOptions: ['North'] }
+  ],
+  buttons: ['Search', { text: 'Reset', selector: '#reset' }],
+  filters: [{ text: 'Case Status' }]
+}, mappingAnalysis([
+  llmMapping('status', 'Case Status', '#status'),
+  llmMapping('state', 'State', '#state'),
+  llmMapping('region', 'Region', '#region')
+], ['county', 'zip']));
+
+const target = learningRun('learning-2', 2, {
+  dropdowns: [
+    // Same label, new selector and one more option
+    { text: 'case  status', selector: '#case-status', allOptions: ['Open', 'Closed', 'Pending'] },
+    // New label, same options: a rename
+    { text: 'Jurisdiction', selector: '#jurisdiction', allOptions: ['Ohio', 'Texas', 'Utah', 'Iowa', 'Maine'] },
+    { text: 'Assignee', selector: '#assignee', allOptions: [] }
+  ],
+  // Same selector under a new label: also a rename
+  buttons: ['Search', { text: 'Clear', selector: '#reset' }]
+}, mappingAnalysis([
+  // Confidence and reasoning differ on every run and are not drift
+  { ...llmMapping('status', 'case status', '#case-status'), confidence: 0.7, reasoning: 'Renamed filter' },
+  { ...llmMapping('state', 'State', '#state'), reasoning: 'Same filter as before' },
+  llmMapping('assignee', 'Assignee', '#assignee', 'search')
+], ['zip', 'region']), 'tsv-2');
+
+describe('detectSiteDrift', () => {
+  const report = detectSiteDrift(base, target);
+
+  it('identifies the runs being compared', () => {
+    assert.equal(report.baseRunId, 'learning-1');
+    assert.equal(report.targetRunId, 'learning-2');
+    assert.equal(report.baseVersion, 1);
+    assert.equal(report.targetVersion, 2);
+    assert.equal(report.tsvChanged, true);
+  });
+
+  it('matches elements by label, then by selector or overlapping options', () => {
+    assert.deepEqual(report.elements.renamed, [
+      { kind: 'dropdowns', from: 'State', to: 'Jurisdiction', selector: '#jurisdiction' },
+      { kind: 'buttons', from: 'Reset', to: 'Clear', selector: '#reset' }
+    ]);
+    assert.deepEqual(report.elements.added.map(element => element.label), ['Assignee']);
+    assert.deepEqual(report.elements.removed.map(element => element.label), ['Region']);
+  });
+
+  it('reports selector and option changes on matched elements', () => {
+    assert.deepEqual(report.elements.selectorChanged, [
+      { kind: 'dropdowns', label: 'case  status', from: '#status', to: '#case-status' },
+      { kind: 'dropdowns', label: 'Jurisdiction', from: '#state', to: '#jurisdiction' }
+    ]);
+    assert.deepEqual(report.elements.optionsChanged, [{ kind: 'dropdowns', label: 'case  status', added: ['Pending'], removed: [] }]);
+  });
+
+  it('diffs UI to TSV mappings and missing fields', () => {
+    assert.deepEqual(report.mappings.added.map(mapping => mapping.dbField), ['assignee']);
+    assert.deepEqual(report.mappings.removed.map(mapping => mapping.dbField), ['region']);
+    assert.deepEqual(report.mappings.changed.map(change => [change.dbField, change.from.selector, change.to.selector]), [['status', '#status', '#case-status']]);
+    assert.deepEqual(report.mappings.newlyMissing, ['region']);
+    assert.deepEqual(report.mappings.resolved, ['county']);
+  });
+
+  it('reads mappings in the MappingAnalysis shape too', () => {
+    const legacy = learningRun('learning-0', 0, {}, {
+      mappings: [{ dbField: 'status', uiElement: 'Case Status', type: 'filter', selector: '#old-status' }]
+    });
+
+    const drift = detectSiteDrift(legacy, base);
+    assert.deepEqual(drift.mappings.changed.map(change => [change.dbField, change.from.selector, change.to.selector]), [['status', '#old-status', '#status']]);
+    assert.deepEqual(drift.mappings.added.map(mapping => mapping.dbField), ['state', 'region']);
+  });
+
+  it('counts every change and none when a run is compared with itself', () => {
+    assert.equal(report.totalChanges, 2 + 1 + 1 + 2 + 1 + 1 + 1 + 1 + 1 + 1);
+
+    const same = detectSiteDrift(base, base);
+    assert.equal(same.totalChanges, 0);
+    assert.equal(same.tsvChanged, false);
+  });
+
+  it('tolerates runs without analysis', () => {
+    const empty = learningRun('learning-0', 0, undefined);
+    empty.learningResults = {} as any;
+
+    assert.equal(detectSiteDrift(empty, base).elements.added.length, 5);
+  });
+});
+
+describe('renderDriftReportHtml', () => {
+  it('renders each section and escapes site content', () => {
+    const hostile = learningRun('learning-3', 3, { buttons: ['<script>alert(1)</script>'] });
+    const html = renderDriftReportHtml(detectSiteDrift(base, hostile));
+
+    assert.match(html, /<title>Site drift: v1 &rarr; v3<\/title>/);
+    assert.ok(html.includes('&lt;script&gt;alert(1)&lt;/script&gt;'));
+    assert.ok(!html.includes('<script>'));
+    assert.match(html, /<h2>Changed options <span class="count">0<\/span><\/h2>\n<p class="none">No changes<\/p>/);
+  });
+});
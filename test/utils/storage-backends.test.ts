@@ -0,0 +1,109 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { InMemoryStorageBackend, JsonFileStorageBackend, createStorageBackend } from '../../src/utils/storage-backends';
+import { silenceConsole } from '../helpers';
+
+silenceConsole();
+
+describe('InMemoryStorageBackend', () => {
+  it('stores, lists, counts and deletes values per collection', async () => {
+    const backend = new InMemoryStorageBackend();
+    await backend.set('testCases', 'a', { id: 'a' });
+    await backend.setMany('testCases', [['b', { id: 'b' }], ['c', { id: 'c' }]]);
+    await backend.set('testRuns', 'r', { id: 'r' });
+
+    assert.deepEqual(await backend.get('testCases', 'b'), { id: 'b' });
+    assert.equal(await backend.count('testCases'), 3);
+    assert.equal(await backend.count('testRuns'), 1);
+
+    await backend.delete('testCases', 'a');
+    assert.equal(await backend.get('testCases', 'a'), null);
+    assert.deepEqual((await backend.values<{ id: string }>('testCases')).map(item => item.id), ['b', 'c']);
+
+    await backend.clear();
+    assert.equal(await backend.count('testCases'), 0);
+    assert.equal(await backend.count('testRuns'), 0);
+  });
+});
+
+describe('JsonFileStorageBackend', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'test-storage-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('persists collections to one JSON file each and reloads them with dates revived', async () => {
+    const createdAt = new Date('2024-05-01T10:00:00.000Z');
+    const writer = new JsonFileStorageBackend(directory);
+    await writer.set('testCases', 'tc-1', { id: 'tc-1', createdAt });
+    await writer.set('testRuns', 'run-1', { id: 'run-1' });
+
+    assert.deepEqual(fs.readdirSync(directory).sort(), ['testCases.json', 'testRuns.json']);
+
+    const reader = new JsonFileStorageBackend(directory);
+    const testCase = await reader.get<{ id: string; createdAt: Date }>('testCases', 'tc-1');
+    assert.ok(testCase!.createdAt instanceof Date);
+    assert.equal(testCase!.createdAt.getTime(), createdAt.getTime());
+    assert.equal(await reader.count('testRuns'), 1);
+  });
+
+  it('keeps the last of concurrent writes', async () => {
+    const writer = new JsonFileStorageBackend(directory);
+    await Promise.all(Array.from({ length: 20 }, (_, i) => writer.set('testCases', `tc-${i}`, { id: `tc-${i}` })));
+
+    const reader = new JsonFileStorageBackend(directory);
+    assert.equal(await reader.count('testCases'), 20);
+  });
+
+  it('clears collections that were not loaded in this session', async () => {
+    await new JsonFileStorageBackend(directory).set('learningRuns', 'lr-1', { id: 'lr-1' });
+
+    await new JsonFileStorageBackend(directory).clear();
+
+    assert.equal(await new JsonFileStorageBackend(directory).count('learningRuns'), 0);
+  });
+
+  it('clears only the named collections, including ones not loaded yet', async () => {
+    const writer = new JsonFileStorageBackend(directory);
+    await writer.set('testCases', 'tc-1', { id: 'tc-1' });
+    await writer.set('learningRuns', 'lr-1', { id: 'lr-1' });
+
+    await new JsonFileStorageBackend(directory).clear(['testCases']);
+
+    const reader = new JsonFileStorageBackend(directory);
+    assert.equal(await reader.count('testCases'), 0);
+    assert.equal(await reader.count('learningRuns'), 1);
+  });
+
+  it('reports the file when a collection cannot be parsed', async () => {
+    fs.writeFileSync(path.join(directory, 'testCases.json'), '{ not json');
+    const backend = new JsonFileStorageBackend(directory);
+
+    await assert.rejects(backend.get('testCases', 'x'), /Failed to load testCases from .*testCases\.json/);
+  });
+});
+
+describe('createStorageBackend', () => {
+  const original = process.env.TEST_STORAGE_BACKEND;
+
+  afterEach(() => {
+    if (original === undefined) delete process.env.TEST_STORAGE_BACKEND;
+    else process.env.TEST_STORAGE_BACKEND = original;
+  });
+
+  it('selects the backend from TEST_STORAGE_BACKEND', () => {
+    process.env.TEST_STORAGE_BACKEND = 'memory';
+    assert.equal(createStorageBackend().name, 'memory');
+
+    process.env.TEST_STORAGE_BACKEND = 'redis';
+    assert.throws(() => createStorageBackend(), /Unknown TEST_STORAGE_BACKEND "redis"/);
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { TestStorage } from '../../src/utils/storage';
+import { InMemoryStorageBackend } from '../../src/utils/storage-backends';
+import { LearningRun, TestResult, TestRun } from '../../src/models';
+import { silenceConsole } from '../helpers';
+
+silenceConsole();
+
+function result(testCaseId: string, runId: string, status: TestResult['status']): TestResult {
+  const time = new Date('2024-05-01T10:00:00.000Z');
+  return { testCaseId, testCaseName: testCaseId, runId, status, startTime: time, endTime: time, duration: 0, screenshots: [] };
+}
+
+function run(id: string, startTime: string, results: TestResult[]): TestRun {
+  return {
+    id,
+    status: 'completed',
+    startTime: new Date(startTime),
+    duration: 0,
+    environment: 'test',
+    testCaseIds: results.map(item => item.testCaseId),
+    results
+  };
+}
+
+describe('TestStorage run history', () => {
+  it('lists test runs newest first', async () => {
+    const storage = new TestStorage(new InMemoryStorageBackend());
+    await storage.saveTestRun(run('run-1', '2024-05-01T10:00:00.000Z', []));
+    await storage.saveTestRun(run('run-3', '2024-05-03T10:00:00.000Z', []));
+    await storage.saveTestRun(run('run-2', '2024-05-02T10:00:00.000Z', []));
+
+    assert.deepEqual((await storage.getAllTestRuns()).map(item => item.id), ['run-3', 'run-2', 'run-1']);
+  });
+
+  it('keeps every result of a rerun case, oldest run first', async () => {
+    const storage = new TestStorage(new InMemoryStorageBackend());
+    await storage.saveTestRun(run('run-2', '2024-05-02T10:00:00.000Z', [result('tc-1', 'run-2', 'passed'), result('tc-2', 'run-2', 'passed')]));
+    await storage.saveTestRun(run('run-1', '2024-05-01T10:00:00.000Z', [result('tc-1', 'run-1', 'failed')]));
+
+    const history = await storage.getTestResultHistory('tc-1');
+    assert.deepEqual(history.map(item => [item.runId, item.status]), [['run-1', 'failed'], ['run-2', 'passed']]);
+    assert.deepEqual((await storage.getTestResultsByRun('run-2')).map(item => item.testCaseId), ['tc-1', 'tc-2']);
+    assert.deepEqual(await storage.getTestResultsByRun('missing'), []);
+  });
+
+  it('keeps only the latest result per test case outside of runs', async () => {
+    const storage = new TestStorage(new InMemoryStorageBackend());
+    await storage.saveTestResult(result('tc-1', 'run-1', 'failed'));
+    await storage.saveTestResult(result('tc-1', 'run-2', 'passed'));
+
+    assert.equal((await storage.getTestResult('tc-1'))!.runId, 'run-2');
+    assert.equal((await storage.getAllTestResults()).length, 1);
+  });
+});
+
+describe('TestStorage clearing', () => {
+  it('keeps learning runs when clearing test data and clears them only on request', async () => {
+    const storage = new TestStorage(new InMemoryStorageBackend());
+    await storage.saveTestRun(run('run-1', '2024-05-01T10:00:00.000Z', [result('tc-1', 'run-1', 'passed')]));
+    await storage.saveLearningRun({ id: 'lr-1', version: 1, websiteUrl: 'https://a.example', createdAt: new Date() } as LearningRun);
+
+    await storage.clearAllData();
+
+    assert.deepEqual(await storage.getAllTestRuns(), []);
+    assert.deepEqual(await storage.getAllTestResults(), []);
+    assert.equal((await storage.getLearningRun('lr-1'))!.version, 1);
+
+    await storage.clearLearningRuns();
+    assert.equal(await storage.getLearningRun('lr-1'), null);
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { TestExecutionEngine } from '../../src/utils/test-execution-engine';
+import { SimpleRAGClient } from '../../src/utils/simple-rag-client';
+import { TestStorage } from '../../src/utils/storage';
+import { InMemoryStorageBackend } from '../../src/utils/storage-backends';
+import { TestCase } from '../../src/models';
+import { silenceConsole } from '../helpers';
+
+silenceConsole();
+
+// Browser stand-in: every tool succeeds and the results table shows the given rows
+function fakeBrowser(rows: Array<Record<string, string>>, calls: Array<{ name: string; options: any; script?: string }> = []): any {
+  const evaluate = (script: string) => script.endsWith('.length') ? rows.length : rows;
+  return {
+    getPage: () => null,
+    callTools: async (toolCalls: any[], options: any = {}) => toolCalls.map(call => (calls.push({ name: call.name, options, script: call.parameters.script }), {
+      id: call.id,
+      success: true,
+      result: call.name === 'playwright_evaluate' && String(call.parameters.script).includes('tbody tr')
+        ? [{ type: 'text', text: 'Result:' }, { type: 'text', text: JSON.stringify(evaluate(call.parameters.script)) }]
+        : [{ type: 'text', text: 'ok' }]
+    }))
+  };
+}
+
+async function storageWith(testCase: TestCase): Promise<TestStorage> {
+  const storage = new TestStorage(new InMemoryStorageBackend());
+  await storage.saveTestCase(testCase);
+  return storage;
+}
+
+function filterCase(): TestCase {
+  const now = new Date();
+  return {
+    id: 'tc-ohio',
+    name: 'Filter by state',
+    description: 'Filter cases by state',
+    category: 'data_validation',
+    priority: 'high',
+    status: 'ready',
+    steps: [{ action: 'select', selector: '#state', value: 'Ohio', description: 'Pick Ohio' }],
+    selectors: ['#state'],
+    testData: {},
+    expectedResults: [],
+    dataField: 'state',
+    testValues: ['Ohio'],
+    websiteUrl: 'https://cases.example.com',
+    createdAt: now,
+    updatedAt: now,
+    tags: []
+  };
+}
+
+describe('TestExecutionEngine TSV validation', () => {
+  it('validates against the TSV learned for the case website, not the URL it runs against', async () => {
+    const goldStandard = new SimpleRAGClient({} as any);
+    goldStandard.storeRecords([{ case_id: '1', state: 'Ohio' }, { case_id: '2', state: 'Texas' }]);
+    const requested: string[] = [];
+    const engine = new TestExecutionEngine(fakeBrowser([{ 'Case ID': '1', State: 'Ohio' }]), await storageWith(filterCase()), async url => {
+      requested.push(url);
+      return url === 'https://cases.example.com' ? goldStandard : null;
+    });
+
+    const result = await engine.executeTestCase('tc-ohio', { websiteUrl: 'https://staging.example.com' });
+
+    assert.deepEqual(requested, ['https://cases.example.com']);
+    assert.equal(result.status, 'passed');
+    assert.equal(result.validation!.passed, true);
+    assert.equal(result.validation!.expectedCount, 1);
+  });
+
+  it('scrapes the results table with the same timeout and abort signal as the steps', async () => {
+    const goldStandard = new SimpleRAGClient({} as any);
+    goldStandard.storeRecords([{ case_id: '1', state: 'Ohio' }]);
+    const calls: Array<{ name: string; options: any }> = [];
+    const engine = new TestExecutionEngine(fakeBrowser([{ 'Case ID': '1', State: 'Ohio' }], calls), await storageWith(filterCase()), async () => goldStandard);
+    const signal = new AbortController().signal;
+
+    await engine.executeTestCase('tc-ohio', { timeout: 5000, signal });
+
+    const stepCalls = calls.filter(call => ['playwright_navigate', 'playwright_select'].includes(call.name) ||
+      (call.name === 'playwright_evaluate' && call.options.signal));
+    assert.deepEqual(stepCalls.map(call => [call.name, call.options.timeout, call.options.signal === signal]), [
+      ['playwright_navigate', 5000, true],
+      ['playwright_select', 5000, true],
+      ['playwright_evaluate', 5000, true]
+    ]);
+  });
+
+  it('counts the rows of the validate step\'s table with the rule exported specs use', async () => {
+    const calls: Array<{ name: string; options: any; script?: string }> = [];
+    const testCase = { ...filterCase(), dataField: undefined, steps: [{ action: 'validate' as const, selector: '#results', expectedCount: 2, description: 'Count rows' }] };
+    const engine = new TestExecutionEngine(fakeBrowser([{ State: 'Ohio' }], calls), await storageWith(testCase), async () => null);
+
+    const result = await engine.executeTestCase('tc-ohio');
+
+    assert.ok(calls.some(call => call.script === 'document.querySelectorAll("#results tbody tr").length'));
+    assert.equal(result.status, 'failed');
+    assert.match(result.error!, /Expected 2 results, "#results tbody tr" matches 1 rows/);
+  });
+
+  it('records the validation as skipped when the site has no TSV data', async () => {
+    const engine = new TestExecutionEngine(fakeBrowser([]), await storageWith(filterCase()), async () => null);
+
+    const result = await engine.executeTestCase('tc-ohio');
+
+    assert.equal(result.status, 'passed');
+    assert.equal(result.validation!.skipped, true);
+    assert.equal(result.validation!.passed, false);
+    assert.match(result.validation!.message, /No TSV data learned for https:\/\/cases\.example\.com/);
+  });
+});
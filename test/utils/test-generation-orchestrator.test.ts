@@ -0,0 +1,42 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { TestGenerationOrchestrator } from '../../src/utils/test-generation-orchestrator';
+import { TestStorage } from '../../src/utils/storage';
+import { InMemoryStorageBackend } from '../../src/utils/storage-backends';
+import { LearningResults } from '../../src/models';
+import { silenceConsole } from '../helpers';
+
+silenceConsole();
+
+function learningResults(mappings: any[]): LearningResults {
+  return {
+    success: true,
+    results: { uiElements: 0, dbFields: 0, testCases: 0, relationships: 0 },
+    analysis: {
+      database: {} as any,
+      ui: {} as any,
+      mapping: { mappings, testCases: [], validationRules: [], missingMappings: [], dataRelationships: [] }
+    }
+  };
+}
+
+describe('TestGenerationOrchestrator.generateTestCases', () => {
+  it("builds cases from the learning run's own mappings without touching the site's RAG index", async () => {
+    const storage = new TestStorage(new InMemoryStorageBackend());
+    // No learning orchestrator and no vector index: any RAG lookup would fail the generation
+    const orchestrator = new TestGenerationOrchestrator({} as any, {} as any, storage, null);
+
+    const generation = await orchestrator.generateTestCases(learningResults([
+      { tsvField: 'state', tsvFile: 'cases.tsv', uiElement: 'State', uiSelector: '#state', confidence: 0.9, sampleValues: ['Ohio', 'Texas'], testType: 'filter' },
+      { dbField: 'status', uiElement: 'Status', type: 'filter', selector: '#status' }
+    ]), {}, 'https://cases.example.com');
+
+    assert.equal(generation.success, true);
+    assert.deepEqual(generation.statistics, { totalTestCases: 2, mappingsUsed: 2, mappingSource: 'learning-run', ragQueries: 0 });
+    assert.deepEqual(generation.testCases!.map(testCase => [testCase.dataField, testCase.selectors[0], testCase.testValues, testCase.websiteUrl]), [
+      ['state', '#state', ['Ohio', 'Texas'], 'https://cases.example.com'],
+      ['status', '#status', ['test'], 'https://cases.example.com']
+    ]);
+    assert.equal((await storage.getAllTestCases()).length, 2);
+  });
+});
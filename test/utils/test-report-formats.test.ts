@@ -0,0 +1,111 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { toJUnitXml, toJsonReport, JSON_REPORT_SCHEMA_VERSION } from '../../src/utils/test-report-formats';
+import { TestCase, TestResult, TestRun } from '../../src/models';
+import { silenceConsole } from '../helpers';
+
+silenceConsole();
+
+const startTime = new Date('2024-05-01T10:00:00.000Z');
+
+function result(testCaseId: string, status: TestResult['status'], extra: Partial<TestResult> = {}): TestResult {
+  return { testCaseId, runId: 'run-1', status, startTime, endTime: startTime, duration: 1500, screenshots: [], ...extra };
+}
+
+const testRun: TestRun = {
+  id: 'run-1',
+  status: 'completed',
+  startTime,
+  endTime: new Date('2024-05-01T10:00:06.000Z'),
+  duration: 6000,
+  environment: 'staging',
+  websiteUrl: 'https://example.com',
+  testCaseIds: ['tc-pass', 'tc-fail', 'tc-error', 'tc-skip'],
+  results: [
+    result('tc-pass', 'passed', { testCaseName: 'Filter by <status>' }),
+    result('tc-fail', 'failed', {
+      error: 'TSV validation failed',
+      validation: { passed: false, expectedCount: 5, actualCount: 3, validationChecks: [], message: 'Expected 5 rows\nUI shows 3' }
+    }),
+    result('tc-error', 'error', { error: 'Navigation timed out\u0007' }),
+    result('tc-skip', 'skipped')
+  ]
+};
+
+function testCase(overrides: Partial<TestCase> = {}): TestCase {
+  return {
+    id: 'tc-1',
+    name: 'Test case',
+    description: '',
+    category: 'functionality',
+    priority: 'medium',
+    status: 'ready',
+    steps: [],
+    selectors: [],
+    testData: {},
+    expectedResults: [],
+    createdAt: startTime,
+    updatedAt: startTime,
+    tags: [],
+    ...overrides
+  };
+}
+
+const testCases = [testCase({ id: 'tc-fail', name: 'Filter by state', category: 'data_validation' })];
+
+describe('toJUnitXml', () => {
+  const xml = toJUnitXml(testRun, testCases);
+
+  it('summarizes the run on the suite', () => {
+    assert.match(xml, /<testsuite name="run-1" tests="4" failures="1" errors="1" skipped="1" time="6.000" timestamp="2024-05-01T10:00:00.000Z">/);
+    assert.match(xml, /<property name="websiteUrl" value="https:\/\/example.com"\/>/);
+  });
+
+  it('reports validation mismatches as failures with the first line as message', () => {
+    assert.match(xml, /<testcase name="Filter by state" classname="run-1.data_validation" time="1.500">/);
+    assert.match(xml, /<failure message="Expected 5 rows" type="ValidationFailure">Expected 5 rows\nUI shows 3\nTSV validation failed<\/failure>/);
+  });
+
+  it('reports a step failure, not a validation failure, when validation was skipped', () => {
+    const skippedValidation = { passed: false, skipped: true, expectedCount: 0, actualCount: 0, validationChecks: {}, message: 'No TSV data learned' };
+    const stepFailure = toJUnitXml({ ...testRun, results: [result('tc-fail', 'failed', { error: 'Step 1 failed', validation: skippedValidation })] });
+
+    assert.match(stepFailure, /<failure message="Step 1 failed" type="StepFailure">/);
+  });
+
+  it('reports errors and skips, escaping names and dropping control characters', () => {
+    assert.match(xml, /<testcase name="Filter by &lt;status&gt;" classname="run-1.test" time="1.500"><\/testcase>/);
+    assert.match(xml, /<error message="Navigation timed out" type="ExecutionError">Navigation timed out<\/error>/);
+    assert.match(xml, /<testcase name="tc-skip"[^>]*>\s*<skipped\/>\s*<\/testcase>/);
+  });
+});
+
+describe('toJsonReport', () => {
+  it('produces a versioned report with a summary and per-case details', () => {
+    const report = toJsonReport(testRun, testCases);
+
+    assert.equal(report.schemaVersion, JSON_REPORT_SCHEMA_VERSION);
+    assert.deepEqual(report.run, {
+      id: 'run-1',
+      status: 'completed',
+      environment: 'staging',
+      websiteUrl: 'https://example.com',
+      startTime: '2024-05-01T10:00:00.000Z',
+      endTime: '2024-05-01T10:00:06.000Z',
+      durationMs: 6000
+    });
+    assert.deepEqual(report.summary, { total: 4, passed: 1, failed: 1, error: 1, skipped: 1 });
+
+    const failed = report.testCases[1];
+    assert.equal(failed.name, 'Filter by state');
+    assert.equal(failed.category, 'data_validation');
+    assert.deepEqual(failed.validation, { passed: false, skipped: false, expectedCount: 5, actualCount: 3, message: 'Expected 5 rows\nUI shows 3' });
+    assert.equal(report.testCases[3].name, 'tc-skip');
+    assert.equal(report.testCases[3].error, null);
+  });
+
+  it('survives a JSON round trip unchanged', () => {
+    const report = toJsonReport(testRun, testCases);
+    assert.deepEqual(JSON.parse(JSON.stringify(report)), report);
+  });
+});
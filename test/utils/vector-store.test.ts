@@ -0,0 +1,265 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { LocalVectorStore, InMemoryVectorStore, S3VectorStore, VectorIndexKey, VectorStoreEntry } from '../../src/utils/vector-store';
+import { VectorRAGClient } from '../../src/utils/vector-rag-client';
+import { HashedNGramEmbeddingProvider } from '../../src/utils/embedding-providers';
+import { silenceConsole } from '../helpers';
+
+silenceConsole();
+
+const key: VectorIndexKey = { project: 'cases.example.com:8080', dataset: 'default' };
+
+function entry(id: string, fileName = 'cases.tsv'): VectorStoreEntry {
+  return { id, text: `text ${id}`, embedding: [1, 0], metadata: { type: 'tsv_record' }, fileName };
+}
+
+// Counts embedding calls so tests can tell re-used vectors from new ones
+class CountingEmbeddings extends HashedNGramEmbeddingProvider {
+  calls = 0;
+
+  async embed(text: string): Promise<number[]> {
+    this.calls++;
+    return super.embed(text);
+  }
+}
+
+function tsv(rows: string[][]): string {
+  return [['case_id', 'state', 'status'], ...rows].map(row => row.join('\t')).join('\n');
+}
+
+describe('LocalVectorStore', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'vector-store-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('appends one JSON line per operation under a sanitized project/dataset path', async () => {
+    const store = new LocalVectorStore(directory);
+    await store.append(key, [{ op: 'put', entry: entry('a') }, { op: 'put', entry: entry('b') }]);
+    await store.append(key, [{ op: 'delete', id: 'a' }]);
+
+    const filePath = path.join(directory, 'cases.example.com_8080', 'default.jsonl');
+    const lines = fs.readFileSync(filePath, 'utf8').trim().split('\n').map(line => JSON.parse(line));
+    assert.deepEqual(lines.map(line => line.op), ['put', 'put', 'delete']);
+  });
+
+  it('replays the log on load', async () => {
+    const store = new LocalVectorStore(directory);
+    const signature = { provider: 'local', modelId: 'hashed-ngram-v1', dimensions: 2 };
+    await store.append(key, [
+      { op: 'embedding', embedding: signature },
+      { op: 'file', fileName: 'cases.tsv', file: { fingerprint: 'f1', metadata: { recordCount: 2 } } },
+      { op: 'file', fileName: 'old.tsv', file: { fingerprint: 'f2', metadata: {} } },
+      { op: 'put', entry: entry('a') },
+      { op: 'put', entry: entry('b') },
+      { op: 'delete', id: 'a' },
+      { op: 'removeFile', fileName: 'old.tsv' }
+    ]);
+
+    const snapshot = (await new LocalVectorStore(directory).load(key))!;
+    assert.deepEqual(snapshot.embedding, signature);
+    assert.deepEqual(Array.from(snapshot.entries.keys()), ['b']);
+    assert.deepEqual(Array.from(snapshot.files.keys()), ['cases.tsv']);
+    assert.equal(snapshot.operationCount, 7);
+    assert.equal(await store.load({ project: 'other', dataset: 'default' }), null);
+  });
+
+  it('compacts the log to the live entries', async () => {
+    const store = new LocalVectorStore(directory);
+    await store.append(key, [{ op: 'put', entry: entry('a') }, { op: 'put', entry: entry('b') }, { op: 'delete', id: 'a' }]);
+
+    await store.compact((await store.load(key))!);
+    await store.append(key, [{ op: 'put', entry: entry('c') }]);
+
+    const snapshot = (await store.load(key))!;
+    assert.deepEqual(Array.from(snapshot.entries.keys()), ['b', 'c']);
+    assert.equal(snapshot.operationCount, 2);
+    assert.equal(fs.readdirSync(path.join(directory, 'cases.example.com_8080')).length, 1);
+  });
+
+  it('keeps concurrent appends whole', async () => {
+    const store = new LocalVectorStore(directory);
+    await Promise.all(Array.from({ length: 25 }, (_, i) => store.append(key, [{ op: 'put', entry: entry(`e${i}`) }])));
+
+    assert.equal((await store.load(key))!.entries.size, 25);
+  });
+
+  it('drops a partial last line left by an interrupted append', async () => {
+    const store = new LocalVectorStore(directory);
+    await store.append(key, [{ op: 'put', entry: entry('a') }]);
+    const filePath = path.join(directory, 'cases.example.com_8080', 'default.jsonl');
+    fs.appendFileSync(filePath, '{"op":"put","entry":{"id":"b","te');
+
+    assert.deepEqual(Array.from((await store.load(key))!.entries.keys()), ['a']);
+
+    await store.append(key, [{ op: 'put', entry: entry('c') }]);
+    assert.deepEqual(Array.from((await store.load(key))!.entries.keys()), ['a', 'c']);
+  });
+
+  it('names the file when a line before the last is corrupt', async () => {
+    const store = new LocalVectorStore(directory);
+    await store.append(key, [{ op: 'put', entry: entry('a') }]);
+    fs.appendFileSync(path.join(directory, 'cases.example.com_8080', 'default.jsonl'), '{"op":\n');
+    await store.append(key, [{ op: 'put', entry: entry('b') }]);
+
+    await assert.rejects(store.load(key), /Failed to load vector index from .*default\.jsonl: line 2/);
+  });
+});
+
+describe('S3VectorStore', () => {
+  // Records requests and keeps the last object written, like a bucket with one key
+  function fakeS3(store: S3VectorStore) {
+    const requests: string[] = [];
+    let body: string | null = null;
+    (store as any).s3Client = {
+      send: async (command: any) => {
+        requests.push(command.constructor.name);
+        if (command.constructor.name === 'PutObjectCommand') {
+          body = command.input.Body;
+          return {};
+        }
+        if (body === null) throw Object.assign(new Error('missing'), { name: 'NoSuchKey' });
+        const stored = body;
+        return { Body: { transformToString: async () => stored } };
+      }
+    };
+    return requests;
+  }
+
+  it('reads an index once and applies later appends to its cached copy', async () => {
+    const store = new S3VectorStore('bucket');
+    const requests = fakeS3(store);
+
+    for (let i = 0; i < 5; i++) {
+      await store.append(key, [{ op: 'put', entry: entry(`e${i}`) }]);
+    }
+
+    assert.deepEqual(requests, ['GetObjectCommand', ...Array(5).fill('PutObjectCommand')]);
+    const snapshot = (await store.load(key))!;
+    assert.equal(snapshot.entries.size, 5);
+
+    // Callers own the maps they load
+    snapshot.entries.clear();
+    assert.equal((await store.load(key))!.entries.size, 5);
+  });
+
+  it('forgets the cached copy when a write fails', async () => {
+    const store = new S3VectorStore('bucket');
+    const requests = fakeS3(store);
+    await store.append(key, [{ op: 'put', entry: entry('a') }]);
+
+    const send = (store as any).s3Client.send;
+    (store as any).s3Client.send = async (command: any) => {
+      if (command.constructor.name === 'PutObjectCommand') throw new Error('throttled');
+      return send(command);
+    };
+    await assert.rejects(store.append(key, [{ op: 'put', entry: entry('b') }]), /Failed to save vector index to S3: throttled/);
+
+    assert.deepEqual(Array.from((await store.load(key))!.entries.keys()), ['a']);
+    assert.equal(requests.filter(name => name === 'GetObjectCommand').length, 2);
+  });
+});
+
+describe('VectorRAGClient persistence', () => {
+  let directory: string;
+  const files = [
+    { name: 'cases.tsv', content: tsv([['1', 'Ohio', 'Open'], ['2', 'Texas', 'Closed']]) },
+    { name: 'people.tsv', content: tsv([['3', 'Utah', 'Open']]) }
+  ];
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'vector-rag-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  async function indexWith(tsvFiles: any[]) {
+    const embeddings = new CountingEmbeddings(64);
+    const client = new VectorRAGClient({} as any, new LocalVectorStore(directory), embeddings);
+    await client.useIndex(key.project, key.dataset);
+    await client.indexTSVData(tsvFiles);
+    return { client, embeddings };
+  }
+
+  it('reuses embeddings for unchanged TSV files after a restart', async () => {
+    const first = await indexWith(files);
+    assert.equal(first.embeddings.calls, 2);
+
+    const second = await indexWith(files);
+    assert.equal(second.embeddings.calls, 0);
+    assert.deepEqual(Object.keys(second.client.getTSVMetadata()).sort(), ['cases.tsv', 'people.tsv']);
+
+    const [match] = await second.client.searchRelevantData('Ohio Open', 1);
+    assert.equal(match.fileName, 'cases.tsv');
+  });
+
+  it('re-embeds changed files and drops removed ones', async () => {
+    await indexWith(files);
+
+    const changed = [{ name: 'cases.tsv', content: tsv([['1', 'Ohio', 'Closed']]) }];
+    const { embeddings } = await indexWith(changed);
+    assert.equal(embeddings.calls, 1);
+
+    const snapshot = (await new LocalVectorStore(directory).load(key))!;
+    assert.deepEqual(Array.from(snapshot.files.keys()), ['cases.tsv']);
+    assert.deepEqual(Array.from(snapshot.entries.values()).map(item => item.fileName), ['cases.tsv']);
+  });
+
+  it('compacts the log once superseded operations outnumber live ones', async () => {
+    for (let version = 0; version < 4; version++) {
+      await indexWith([{ name: 'cases.tsv', content: tsv([[String(version), 'Ohio', 'Open']]) }]);
+    }
+
+    const logLines = fs.readFileSync(path.join(directory, 'cases.example.com_8080', 'default.jsonl'), 'utf8').trim().split('\n');
+    // One embedding signature, one file and one entry, plus at most one un-compacted round of changes
+    assert.ok(logLines.length <= 3 + 4, `expected a compacted log, found ${logLines.length} lines`);
+    assert.equal((await new LocalVectorStore(directory).load(key))!.entries.size, 1);
+  });
+
+  it('replaces the previous learning run\'s mapping entries and keeps the TSV ones', async () => {
+    const store = new InMemoryVectorStore();
+    const mapping = (reasoning: string) => ({ uiLabel: 'State', uiSelector: '#state', tsvField: 'state', tsvFile: 'cases.tsv', confidence: 0.9, reasoning });
+
+    const embeddings = new CountingEmbeddings(64);
+    const first = new VectorRAGClient({} as any, store, embeddings);
+    await first.useIndex('site');
+    await first.indexTSVData(files);
+    await first.beginLearningRun();
+    await first.storeMappingResult(mapping('Options match the state column'));
+    await first.storeMappingResult({ ...mapping('Unrelated'), uiLabel: 'Old filter', uiSelector: '#old' });
+
+    const second = new VectorRAGClient({} as any, store, embeddings);
+    await second.useIndex('site');
+    await second.indexTSVData(files);
+    await second.beginLearningRun();
+    embeddings.calls = 0;
+    await second.storeMappingResult(mapping('Options match the state column'));
+
+    assert.equal(embeddings.calls, 0);
+    const entries = Array.from((await store.load({ project: 'site', dataset: 'default' }))!.entries.values());
+    assert.equal(entries.filter(item => item.fileName).length, 2);
+    assert.deepEqual(entries.filter(item => !item.fileName).map(item => item.metadata.uiLabel), ['State']);
+  });
+
+  it('keeps separate indexes per project and dataset', async () => {
+    const store = new InMemoryVectorStore();
+    const client = new VectorRAGClient({} as any, store, new CountingEmbeddings(64));
+    await client.useIndex('site-a');
+    await client.indexTSVData([files[0]]);
+    await client.useIndex('site-b', 'staging');
+    await client.indexTSVData([files[1]]);
+
+    assert.deepEqual(Array.from((await store.load({ project: 'site-a', dataset: 'default' }))!.files.keys()), ['cases.tsv']);
+    assert.deepEqual(Array.from((await store.load({ project: 'site-b', dataset: 'staging' }))!.files.keys()), ['people.tsv']);
+  });
+});